@@ -0,0 +1,365 @@
+import { SettledResult } from "./concurrency";
+import { ThreadsAPIError, createGraphError } from "./errors";
+import type { RequestOptions, ThreadsAPI } from "./index";
+import type { HttpMethod } from "./transport";
+
+/**
+ * Maximum number of operations the Graph API accepts in a single batch.
+ */
+export const MAX_BATCH_SIZE = 50;
+
+// Matches a reference to the result of another operation, e.g. {result=replies:$.data.0.id}
+const REFERENCE_PATTERN = /\{result=([^:}]+):([^}]+)\}/g;
+
+/**
+ * A request recorded from a ThreadsAPI method instead of being sent.
+ */
+export interface BatchRequest {
+  url: string;
+  method: HttpMethod;
+  params: Record<string, string> | URLSearchParams;
+  idempotent: boolean;
+  requestOptions?: RequestOptions;
+}
+
+/**
+ * A single operation as sent in the `batch` parameter.
+ */
+export interface GraphBatchOperation {
+  method: HttpMethod;
+  relative_url: string;
+  name: string;
+  body?: string;
+  omit_response_on_success: false;
+}
+
+/**
+ * A single entry of the batch response, null when the operation was not run.
+ */
+export type GraphBatchResponse = {
+  code: number;
+  headers?: { name: string; value: string }[];
+  body: string;
+} | null;
+
+/**
+ * How a batch records and sends its requests, provided by ThreadsAPI.
+ */
+export interface BatchTransport {
+  /**
+   * The base URL that relative URLs are taken from.
+   */
+  baseUrl: string;
+  /**
+   * Create a client whose requests are handed to `onRequest` instead of being
+   * sent, unless `onRequest` returns undefined
+   */
+  record(
+    onRequest: (request: BatchRequest) => Promise<unknown> | undefined,
+  ): ThreadsAPI;
+  /**
+   * Send one batch of at most MAX_BATCH_SIZE operations
+   */
+  send(
+    operations: GraphBatchOperation[],
+    idempotent: boolean,
+  ): Promise<GraphBatchResponse[]>;
+}
+
+interface RecordedRequest extends BatchRequest {
+  name: string;
+  resolve(value: unknown): void;
+  reject(error: Error): void;
+}
+
+/**
+ * Handle to an operation queued in a batch.
+ */
+export class BatchOperation<T> {
+  readonly name: string;
+
+  /**
+   * Settles with the result of the operation once the batch has been executed.
+   */
+  readonly result: Promise<T>;
+
+  constructor(name: string, result: Promise<T>) {
+    this.name = name;
+    this.result = result;
+    // Failures are reported by execute(); avoid unhandled rejections for unread results
+    result.catch(() => undefined);
+  }
+
+  /**
+   * Refer to part of this operation's result in a later operation of the same batch
+   * @param path JSONPath into the response body, e.g. `$.data.0.id`
+   * @returns A placeholder to pass as an ID or parameter
+   */
+  ref(path: string): string {
+    return `{result=${this.name}:${path}}`;
+  }
+}
+
+/**
+ * Read the values at a JSONPath in a response body. Supports dotted keys,
+ * array indices and `*` wildcards, e.g. `$.data.*.id`.
+ * @param data The response body
+ * @param path The JSONPath
+ * @returns The values found
+ */
+export function evaluatePath(data: unknown, path: string): unknown[] {
+  const keys = path
+    .replace(/^\$\.?/, "")
+    .replace(/\[([^\]]+)\]/g, ".$1")
+    .split(".")
+    .filter(Boolean);
+  let values: unknown[] = [data];
+  for (const key of keys) {
+    const next: unknown[] = [];
+    for (const value of values) {
+      if (value === null || typeof value !== "object") {
+        continue;
+      }
+      if (key === "*") {
+        next.push(...Object.values(value as Record<string, unknown>));
+      } else if (key in value) {
+        next.push((value as Record<string, unknown>)[key]);
+      }
+    }
+    values = next;
+  }
+  return values;
+}
+
+/**
+ * Percent-encode a value, leaving references to other operations intact
+ * @param value The value to encode
+ * @returns The encoded value
+ */
+function encodeValue(value: string): string {
+  // Splitting on a capturing group puts the references at odd indices
+  return value
+    .split(/(\{result=[^:}]+:[^}]+\})/)
+    .map((part, index) => (index % 2 === 1 ? part : encodeURIComponent(part)))
+    .join("");
+}
+
+/**
+ * Encode parameters as a query string
+ * @param params The parameters
+ * @returns The query string
+ */
+function encodeParams(
+  params: Record<string, string> | URLSearchParams,
+): string {
+  const entries =
+    params instanceof URLSearchParams
+      ? Array.from(params.entries())
+      : Object.entries(params);
+  return entries
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeValue(value)}`)
+    .join("&");
+}
+
+/**
+ * Queues API calls and sends them as Graph batch requests. Calls are written
+ * like regular ThreadsAPI calls and keep their return types:
+ *
+ *     const batch = threadsAPI.batch();
+ *     const post = batch.add((api) => api.getThreadsMediaObject({ mediaId, fields }));
+ *     await batch.execute();
+ *     console.log(await post.result);
+ *
+ * Batches larger than MAX_BATCH_SIZE are sent in several chunks, in order.
+ */
+export class ThreadsBatch {
+  private transport: BatchTransport;
+
+  private operations: BatchOperation<unknown>[] = [];
+
+  private requests: RecordedRequest[] = [];
+
+  private executed = false;
+
+  constructor(transport: BatchTransport) {
+    this.transport = transport;
+  }
+
+  /**
+   * Number of operations queued.
+   */
+  get size(): number {
+    return this.operations.length;
+  }
+
+  /**
+   * Queue an API call
+   * @param call Makes the call on the given client, e.g. `(api) => api.hideReply({ replyId, hide: true })`
+   * @param name Optional name to refer to the operation with, defaults to `op<index>`
+   * @returns A handle to the operation's result
+   */
+  add<T>(
+    call: (api: ThreadsAPI) => Promise<T>,
+    name?: string,
+  ): BatchOperation<T> {
+    if (this.executed) {
+      throw new Error("The batch has already been executed");
+    }
+    const operationName = name ?? `op${this.operations.length}`;
+    if (this.operations.some((operation) => operation.name === operationName)) {
+      throw new Error(`Duplicate batch operation name "${operationName}"`);
+    }
+
+    let requestCount = 0;
+    const client = this.transport.record((request) =>
+      // Follow-up requests made after the batch was sent go out on their own
+      this.executed
+        ? undefined
+        : new Promise((resolve, reject) => {
+            this.requests.push({
+              ...request,
+              name:
+                requestCount === 0
+                  ? operationName
+                  : `${operationName}_${requestCount}`,
+              resolve,
+              reject,
+            });
+            requestCount += 1;
+          }),
+    );
+    const operation = new BatchOperation(operationName, call(client));
+    this.operations.push(operation);
+    return operation;
+  }
+
+  /**
+   * Send every queued operation
+   * @returns The outcome of every operation, in the order they were added
+   */
+  async execute(): Promise<SettledResult<unknown>[]> {
+    if (this.executed) {
+      throw new Error("The batch has already been executed");
+    }
+    this.executed = true;
+
+    const bodies = new Map<string, unknown>();
+    for (let start = 0; start < this.requests.length; start += MAX_BATCH_SIZE) {
+      const chunk = this.requests.slice(start, start + MAX_BATCH_SIZE);
+      await this.sendChunk(chunk, bodies);
+    }
+
+    return Promise.all(
+      this.operations.map((operation) =>
+        operation.result.then(
+          (value): SettledResult<unknown> => ({ ok: true, value }),
+          (error): SettledResult<unknown> => ({
+            ok: false,
+            error: error instanceof Error ? error : new Error(String(error)),
+          }),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Send one chunk and settle its requests
+   * @param chunk The requests to send
+   * @param bodies Response bodies of earlier chunks, keyed by operation name
+   */
+  private async sendChunk(
+    chunk: RecordedRequest[],
+    bodies: Map<string, unknown>,
+  ): Promise<void> {
+    // References to earlier chunks cannot be resolved by the API, so fill them in here
+    const resolveReferences = (value: string) =>
+      value.replace(REFERENCE_PATTERN, (reference, name: string, path) =>
+        bodies.has(name)
+          ? evaluatePath(bodies.get(name), path).join(",")
+          : reference,
+      );
+
+    const operations = chunk.map((request): GraphBatchOperation => {
+      const token = request.requestOptions?.accessToken;
+      const params =
+        request.params instanceof URLSearchParams
+          ? new URLSearchParams(request.params)
+          : { ...request.params };
+      if (token) {
+        if (params instanceof URLSearchParams) {
+          params.set("access_token", token);
+        } else {
+          params.access_token = token;
+        }
+      }
+      const encoded = resolveReferences(encodeParams(params));
+      const path = resolveReferences(
+        request.url.startsWith(this.transport.baseUrl)
+          ? request.url.slice(this.transport.baseUrl.length)
+          : request.url,
+      );
+      return request.method === "POST"
+        ? {
+            method: "POST",
+            relative_url: path,
+            name: request.name,
+            body: encoded,
+            omit_response_on_success: false,
+          }
+        : {
+            method: request.method,
+            relative_url: encoded ? `${path}?${encoded}` : path,
+            name: request.name,
+            omit_response_on_success: false,
+          };
+    });
+
+    let responses: GraphBatchResponse[];
+    try {
+      responses = await this.transport.send(
+        operations,
+        chunk.every(({ idempotent }) => idempotent),
+      );
+    } catch (error) {
+      chunk.forEach((request) => request.reject(error as Error));
+      return;
+    }
+
+    chunk.forEach((request, index) => {
+      const response = responses[index];
+      if (!response) {
+        request.reject(
+          new ThreadsAPIError(
+            `Batch operation "${request.name}" was not run, possibly because an operation it depends on failed`,
+          ),
+        );
+        return;
+      }
+      let body: unknown;
+      try {
+        body = JSON.parse(response.body);
+      } catch {
+        body = response.body;
+      }
+      if (response.code >= 400) {
+        request.reject(
+          createGraphError({
+            status: response.code,
+            data: body,
+            headers: (response.headers ?? []).reduce<Record<string, string>>(
+              (headers, { name, value }) => ({
+                ...headers,
+                [name.toLowerCase()]: value,
+              }),
+              {},
+            ),
+            message: `Batch operation "${request.name}" failed with status ${response.code}`,
+          }),
+        );
+        return;
+      }
+      bodies.set(request.name, body);
+      request.resolve(body);
+    });
+  }
+}
@@ -0,0 +1,133 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { ThreadsSignedRequestError } from "./errors";
+
+/**
+ * Decoded payload of a `signed_request` sent to the uninstall and delete callback URLs.
+ */
+export interface SignedRequestPayload {
+  algorithm: string;
+  /**
+   * Unix timestamp in seconds at which the request was signed.
+   */
+  issued_at: number;
+  /**
+   * The app-scoped ID of the user who removed the app or asked for their data to be deleted.
+   */
+  user_id: string;
+  [key: string]: unknown;
+}
+
+/**
+ * A verified deauthorize or data deletion callback.
+ */
+export interface AppCallback {
+  userId: string;
+  /**
+   * Unix timestamp in seconds at which the request was signed.
+   */
+  issuedAt: number;
+  payload: SignedRequestPayload;
+}
+
+/**
+ * Response body Meta expects from the data deletion callback.
+ */
+export interface DataDeletionResponse {
+  /**
+   * URL where the user can check the status of the deletion.
+   */
+  url: string;
+  confirmation_code: string;
+}
+
+/**
+ * Decode a base64url string
+ * @param value The base64url string
+ * @returns The decoded bytes
+ */
+function base64UrlDecode(value: string): Buffer {
+  return Buffer.from(value.replace(/-/g, "+").replace(/_/g, "/"), "base64");
+}
+
+/**
+ * Verify and decode a `signed_request`
+ * @param signedRequest The `signed_request` value, `<signature>.<payload>`
+ * @param appSecret The app secret (`clientSecret`)
+ * @returns The decoded payload
+ * @throws ThreadsSignedRequestError if the request is malformed or the signature does not match
+ */
+export function parseSignedRequest(
+  signedRequest: string,
+  appSecret: string,
+): SignedRequestPayload {
+  const [encodedSignature, encodedPayload, ...rest] = signedRequest.split(".");
+  if (!encodedSignature || !encodedPayload || rest.length > 0) {
+    throw new ThreadsSignedRequestError("Malformed signed_request");
+  }
+
+  const signature = base64UrlDecode(encodedSignature);
+  const expected = createHmac("sha256", appSecret)
+    .update(encodedPayload)
+    .digest();
+  if (
+    signature.length !== expected.length ||
+    !timingSafeEqual(signature, expected)
+  ) {
+    throw new ThreadsSignedRequestError("Invalid signed_request signature");
+  }
+
+  let payload: SignedRequestPayload;
+  try {
+    payload = JSON.parse(base64UrlDecode(encodedPayload).toString("utf8"));
+  } catch {
+    throw new ThreadsSignedRequestError("Malformed signed_request payload");
+  }
+  if (payload.algorithm?.toUpperCase() !== "HMAC-SHA256") {
+    throw new ThreadsSignedRequestError(
+      `Unsupported signed_request algorithm: ${payload.algorithm}`,
+    );
+  }
+  return payload;
+}
+
+/**
+ * Verify and decode the body of a deauthorize or data deletion callback
+ * @param body The form-encoded request body, as a string, URLSearchParams or parsed object
+ * @param appSecret The app secret (`clientSecret`)
+ * @returns The user the callback is about
+ * @throws ThreadsSignedRequestError if the body has no valid `signed_request`
+ */
+export function parseAppCallback(
+  body: string | URLSearchParams | Record<string, unknown>,
+  appSecret: string,
+): AppCallback {
+  const signedRequest =
+    typeof body === "string"
+      ? new URLSearchParams(body).get("signed_request")
+      : body instanceof URLSearchParams
+        ? body.get("signed_request")
+        : body.signed_request;
+  if (typeof signedRequest !== "string") {
+    throw new ThreadsSignedRequestError("The request has no signed_request");
+  }
+
+  const payload = parseSignedRequest(signedRequest, appSecret);
+  return {
+    userId: String(payload.user_id),
+    issuedAt: payload.issued_at,
+    payload,
+  };
+}
+
+/**
+ * Build the response body for the data deletion callback
+ * @param url URL where the user can check the status of the deletion
+ * @param confirmationCode Code the user can quote to identify the deletion request
+ * @returns The response body to send as JSON
+ */
+export function createDataDeletionResponse(
+  url: string,
+  confirmationCode: string,
+): DataDeletionResponse {
+  return { url, confirmation_code: confirmationCode };
+}
@@ -0,0 +1,42 @@
+export type SettledResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: Error };
+
+/**
+ * Run a task for every item with at most `concurrency` tasks in flight.
+ * A failing task does not stop the others.
+ * @param items The items to process
+ * @param concurrency Maximum number of tasks running at once
+ * @param task The task to run for each item
+ * @returns The outcome of every task, in the order of the items
+ */
+export async function mapSettled<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>,
+): Promise<SettledResult<R>[]> {
+  const results: SettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { ok: true, value: await task(items[index], index) };
+      } catch (error) {
+        results[index] = {
+          ok: false,
+          error: error instanceof Error ? error : new Error(String(error)),
+        };
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from(
+      { length: Math.max(1, Math.min(concurrency, items.length)) },
+      worker,
+    ),
+  );
+  return results;
+}
@@ -0,0 +1,147 @@
+import type { MediaFields, ThreadsMediaObject } from "./index";
+
+/**
+ * Fields that are always fetched when building a conversation tree.
+ */
+export const CONVERSATION_TREE_FIELDS = ["replied_to", "timestamp"] as const;
+
+export type ConversationReply<F extends MediaFields> = ThreadsMediaObject<
+  F | (typeof CONVERSATION_TREE_FIELDS)[number]
+>;
+
+/**
+ * A reply and the replies made to it.
+ */
+export interface ConversationNode<F extends MediaFields> {
+  reply: ConversationReply<F>;
+  /**
+   * 1 for replies to the root post, 2 for replies to those, and so on.
+   */
+  depth: number;
+  children: ConversationNode<F>[];
+}
+
+/**
+ * The replies of a post, nested under the reply they answer.
+ */
+export interface ConversationTree<F extends MediaFields> {
+  rootId: string;
+  /**
+   * Replies made directly to the root post. Replies whose parent is not part of
+   * the conversation are listed here too.
+   */
+  children: ConversationNode<F>[];
+  /**
+   * Total number of replies in the tree.
+   */
+  size: number;
+}
+
+/**
+ * Nest a flat list of replies, as returned by `getConversation`
+ * @param rootId The ID of the root post
+ * @param replies The replies, which must include `replied_to` and `timestamp`
+ * @param reverse Whether siblings are ordered newest first, like the `reverse` flag of the API. Defaults to true.
+ * @returns The tree
+ */
+export function buildConversationTree<F extends MediaFields>(
+  rootId: string,
+  replies: readonly ConversationReply<F>[],
+  { reverse = true }: { reverse?: boolean } = {},
+): ConversationTree<F> {
+  const nodes = new Map<string, ConversationNode<F>>();
+  for (const reply of replies) {
+    nodes.set(reply.id, { reply, depth: 0, children: [] });
+  }
+
+  const children: ConversationNode<F>[] = [];
+  nodes.forEach((node) => {
+    const parentId = node.reply.replied_to?.id;
+    const parent =
+      parentId && parentId !== rootId ? nodes.get(parentId) : undefined;
+    (parent ? parent.children : children).push(node);
+  });
+
+  const direction = reverse ? -1 : 1;
+  const order = (siblings: ConversationNode<F>[], depth: number) => {
+    siblings.sort(
+      (a, b) =>
+        direction *
+        (Date.parse(a.reply.timestamp) - Date.parse(b.reply.timestamp) || 0),
+    );
+    for (const node of siblings) {
+      node.depth = depth;
+      order(node.children, depth + 1);
+    }
+  };
+  order(children, 1);
+
+  return { rootId, children, size: nodes.size };
+}
+
+/**
+ * Visit every reply depth-first, parents before their children
+ * @param tree The tree or a list of nodes
+ * @param visitor Called for each node; return false to skip its children
+ */
+export function walkConversation<F extends MediaFields>(
+  tree: ConversationTree<F> | readonly ConversationNode<F>[],
+  visitor: (
+    node: ConversationNode<F>,
+    parent: ConversationNode<F> | undefined,
+  ) => boolean | void,
+): void {
+  const visit = (
+    nodes: readonly ConversationNode<F>[],
+    parent?: ConversationNode<F>,
+  ) => {
+    for (const node of nodes) {
+      if (visitor(node, parent) !== false) {
+        visit(node.children, node);
+      }
+    }
+  };
+  visit("children" in tree ? tree.children : tree);
+}
+
+/**
+ * Keep the replies matching a predicate, along with the replies leading to them
+ * so they stay in context
+ * @param tree The tree
+ * @param predicate Decides whether a reply is kept
+ * @returns A new tree
+ */
+export function filterConversation<F extends MediaFields>(
+  tree: ConversationTree<F>,
+  predicate: (node: ConversationNode<F>) => boolean,
+): ConversationTree<F> {
+  let size = 0;
+  const filter = (nodes: ConversationNode<F>[]): ConversationNode<F>[] => {
+    const kept: ConversationNode<F>[] = [];
+    for (const node of nodes) {
+      const children = filter(node.children);
+      if (children.length > 0 || predicate(node)) {
+        kept.push({ ...node, children });
+        size += 1;
+      }
+    }
+    return kept;
+  };
+  const children = filter(tree.children);
+  return { rootId: tree.rootId, children, size };
+}
+
+/**
+ * List every node in depth-first order, e.g. to render a thread with indentation
+ * @param tree The tree
+ * @returns The nodes
+ */
+export function flattenConversation<F extends MediaFields>(
+  tree: ConversationTree<F>,
+): ConversationNode<F>[] {
+  const nodes: ConversationNode<F>[] = [];
+  walkConversation(tree, (node) => {
+    nodes.push(node);
+  });
+  return nodes;
+}
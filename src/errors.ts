@@ -0,0 +1,429 @@
+/**
+ * Error object returned by the Graph API in the `error` field of a failed response.
+ */
+export interface GraphErrorBody {
+  message?: string;
+  type?: string;
+  code?: number;
+  error_subcode?: number;
+  error_user_title?: string;
+  error_user_msg?: string;
+  is_transient?: boolean;
+  fbtrace_id?: string;
+}
+
+export interface ThreadsAPIErrorDetails {
+  /**
+   * HTTP status code of the response, if one was received.
+   */
+  status?: number;
+  /**
+   * Graph API error code (`error.code`).
+   */
+  code?: number;
+  /**
+   * Graph API error subcode (`error.error_subcode`).
+   */
+  subcode?: number;
+  /**
+   * Graph API error type (`error.type`), e.g. `OAuthException`.
+   */
+  type?: string;
+  /**
+   * Trace ID to quote when reporting an issue to Meta.
+   */
+  fbtraceId?: string;
+  /**
+   * Whether the API flagged the error as transient, meaning the request can be retried.
+   */
+  isTransient?: boolean;
+  /**
+   * Message intended to be shown to the end user, if provided.
+   */
+  userMessage?: string;
+  /**
+   * Seconds to wait before retrying, from the `Retry-After` header.
+   */
+  retryAfter?: number;
+  /**
+   * The raw response body.
+   */
+  data?: unknown;
+  /**
+   * The underlying error.
+   */
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error raised by a Threads API request.
+ */
+export class ThreadsAPIError extends Error {
+  readonly status?: number;
+
+  readonly code?: number;
+
+  readonly subcode?: number;
+
+  readonly type?: string;
+
+  readonly fbtraceId?: string;
+
+  readonly isTransient?: boolean;
+
+  readonly userMessage?: string;
+
+  readonly retryAfter?: number;
+
+  readonly data?: unknown;
+
+  readonly cause?: unknown;
+
+  constructor(message: string, details: ThreadsAPIErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.code = details.code;
+    this.subcode = details.subcode;
+    this.type = details.type;
+    this.fbtraceId = details.fbtraceId;
+    this.isTransient = details.isTransient;
+    this.userMessage = details.userMessage;
+    this.retryAfter = details.retryAfter;
+    this.data = details.data;
+    this.cause = details.cause;
+  }
+}
+
+/**
+ * The access token is missing, invalid or has been revoked. Re-authenticate the user.
+ */
+export class ThreadsAuthError extends ThreadsAPIError {}
+
+/**
+ * The access token has expired. Refresh it or re-authenticate the user.
+ */
+export class ThreadsTokenExpiredError extends ThreadsAuthError {}
+
+/**
+ * The token lacks the permission (scope) required for the request.
+ */
+export class ThreadsPermissionError extends ThreadsAPIError {}
+
+/**
+ * The request was throttled. Retry after `retryAfter` seconds when known.
+ */
+export class ThreadsRateLimitError extends ThreadsAPIError {}
+
+/**
+ * The request was rejected because of invalid parameters.
+ */
+export class ThreadsValidationError extends ThreadsAPIError {}
+
+export type PostViolationCode =
+  | "TEXT_REQUIRED"
+  | "TEXT_TOO_LONG"
+  | "TOO_MANY_LINKS"
+  | "LINK_ATTACHMENT_NOT_ALLOWED"
+  | "MEDIA_URL_REQUIRED"
+  | "MEDIA_URL_NOT_HTTPS"
+  | "UNEXPECTED_MEDIA_URL"
+  | "CAROUSEL_NOT_ALLOWED"
+  | "INVALID_CAROUSEL_ITEM_TYPE"
+  | "TOO_FEW_CAROUSEL_ITEMS"
+  | "TOO_MANY_CAROUSEL_ITEMS";
+
+/**
+ * A single reason why a post breaks the documented limits.
+ */
+export interface PostViolation {
+  code: PostViolationCode;
+  /**
+   * The offending parameter, e.g. `text` or `items[2].mediaUrl`.
+   */
+  field: string;
+  message: string;
+}
+
+/**
+ * A post was rejected before being sent because it breaks the documented limits.
+ */
+export class ThreadsPostValidationError extends ThreadsValidationError {
+  readonly violations: PostViolation[];
+
+  constructor(violations: PostViolation[]) {
+    super(violations.map(({ message }) => message).join("; "));
+    this.violations = violations;
+  }
+}
+
+/**
+ * The requested object does not exist or is not visible to the token.
+ */
+export class ThreadsNotFoundError extends ThreadsAPIError {}
+
+/**
+ * The API failed on its side. The request can usually be retried.
+ */
+export class ThreadsServerError extends ThreadsAPIError {}
+
+/**
+ * No response was received, e.g. because of a timeout or a dropped connection.
+ */
+export class ThreadsNetworkError extends ThreadsAPIError {}
+
+/**
+ * A media container ended in the `ERROR` or `EXPIRED` state and cannot be published.
+ */
+export class ThreadsContainerError extends ThreadsAPIError {
+  readonly containerId: string;
+
+  readonly containerStatus: "ERROR" | "EXPIRED";
+
+  constructor(
+    message: string,
+    containerId: string,
+    containerStatus: "ERROR" | "EXPIRED",
+  ) {
+    super(message);
+    this.containerId = containerId;
+    this.containerStatus = containerStatus;
+  }
+}
+
+/**
+ * A media container did not finish processing within the allowed time.
+ */
+export class ThreadsContainerTimeoutError extends ThreadsAPIError {
+  readonly containerId: string;
+
+  constructor(message: string, containerId: string) {
+    super(message);
+    this.containerId = containerId;
+  }
+}
+
+/**
+ * A publishing pre-flight check found that the user has no posts or replies
+ * left in their 24-hour quota, so no container was created.
+ */
+export class ThreadsQuotaExceededError extends ThreadsAPIError {
+  readonly quota: "posts" | "replies";
+
+  readonly usage: number;
+
+  readonly total: number;
+
+  constructor(
+    message: string,
+    quota: "posts" | "replies",
+    usage: number,
+    total: number,
+  ) {
+    super(message);
+    this.quota = quota;
+    this.usage = usage;
+    this.total = total;
+  }
+}
+
+/**
+ * Publishing a thread chain stopped part way through. The segments listed in
+ * `publishedIds` are live; pass them back to `publishThreadChain` to resume.
+ */
+export class ThreadsChainError extends ThreadsAPIError {
+  readonly publishedIds: string[];
+
+  readonly failedIndex: number;
+
+  constructor(
+    message: string,
+    publishedIds: string[],
+    failedIndex: number,
+    cause: unknown,
+  ) {
+    super(message, { cause });
+    this.publishedIds = publishedIds;
+    this.failedIndex = failedIndex;
+  }
+}
+
+/**
+ * The OAuth authorization flow failed, e.g. because the user denied access or
+ * the `state` returned to the redirect URI does not match the one sent.
+ */
+export class ThreadsOAuthError extends ThreadsAPIError {
+  /**
+   * The `error` parameter of the callback, e.g. `access_denied`, or `state_mismatch`.
+   */
+  readonly error: string;
+
+  readonly errorReason?: string;
+
+  readonly errorDescription?: string;
+
+  constructor(
+    message: string,
+    {
+      error,
+      errorReason,
+      errorDescription,
+    }: { error: string; errorReason?: string; errorDescription?: string },
+  ) {
+    super(message);
+    this.error = error;
+    this.errorReason = errorReason;
+    this.errorDescription = errorDescription;
+  }
+}
+
+/**
+ * A `signed_request` is malformed or its signature does not match the app secret.
+ */
+export class ThreadsSignedRequestError extends ThreadsAPIError {}
+
+// Graph API error codes, see https://developers.facebook.com/docs/graph-api/guides/error-handling
+const AUTH_CODES = [102, 190];
+const EXPIRED_TOKEN_SUBCODES = [463, 467];
+const RATE_LIMIT_CODES = [4, 17, 32, 341, 613];
+const SERVER_CODES = [1, 2];
+const NOT_FOUND_SUBCODES = [33];
+
+/**
+ * Parse the `Retry-After` header into a number of seconds
+ * @param value The header value, either delay-seconds or an HTTP date
+ * @returns The number of seconds to wait, or undefined if absent or malformed
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (
+    (typeof value !== "string" && typeof value !== "number") ||
+    String(value).trim() === ""
+  ) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds);
+  }
+  const date = Date.parse(String(value));
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Build the error matching a failed Graph API response
+ * @param status The HTTP status code of the response
+ * @param data The response body
+ * @param headers The response headers
+ * @param message Message to use when the body carries none
+ * @param cause The underlying error
+ * @returns The matching ThreadsAPIError subclass
+ */
+export function createGraphError({
+  status,
+  data,
+  headers,
+  message: fallbackMessage,
+  cause,
+}: {
+  status: number;
+  data: unknown;
+  headers?: Record<string, unknown>;
+  message: string;
+  cause?: unknown;
+}): ThreadsAPIError {
+  const body: GraphErrorBody =
+    (data as { error?: GraphErrorBody } | undefined)?.error ?? {};
+  const message =
+    body.message ||
+    (data as { error_message?: string } | undefined)?.error_message ||
+    fallbackMessage;
+  const details: ThreadsAPIErrorDetails = {
+    status,
+    code: body.code,
+    subcode: body.error_subcode,
+    type: body.type,
+    fbtraceId: body.fbtrace_id,
+    isTransient: body.is_transient,
+    userMessage: body.error_user_msg,
+    retryAfter: parseRetryAfter(headers?.["retry-after"]),
+    data,
+    cause,
+  };
+  const code = body.code ?? -1;
+  const subcode = body.error_subcode ?? -1;
+
+  if (AUTH_CODES.includes(code) || status === 401) {
+    if (EXPIRED_TOKEN_SUBCODES.includes(subcode)) {
+      return new ThreadsTokenExpiredError(message, details);
+    }
+    return new ThreadsAuthError(message, details);
+  }
+  if (RATE_LIMIT_CODES.includes(code) || status === 429) {
+    return new ThreadsRateLimitError(message, details);
+  }
+  if (code === 10 || (code >= 200 && code <= 299) || status === 403) {
+    return new ThreadsPermissionError(message, details);
+  }
+  if (NOT_FOUND_SUBCODES.includes(subcode) || status === 404) {
+    return new ThreadsNotFoundError(message, details);
+  }
+  if (SERVER_CODES.includes(code) || status >= 500) {
+    return new ThreadsServerError(message, details);
+  }
+  if (code === 100 || status === 400) {
+    return new ThreadsValidationError(message, details);
+  }
+  return new ThreadsAPIError(message, details);
+}
+
+// The parts of an AxiosError read by toThreadsAPIError
+interface AxiosErrorLike extends Error {
+  isAxiosError: true;
+  response?: {
+    status: number;
+    data: unknown;
+    headers?: Record<string, unknown>;
+  };
+}
+
+/**
+ * Whether an error was raised by axios, detected structurally so axios need not be loaded
+ * @param error The error to check
+ * @returns True if the error is an AxiosError
+ */
+function isAxiosError(error: unknown): error is AxiosErrorLike {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as { isAxiosError?: unknown }).isAxiosError === true
+  );
+}
+
+/**
+ * Convert any error thrown while making a request into a ThreadsAPIError
+ * @param error The error thrown by the HTTP client
+ * @returns The matching ThreadsAPIError subclass, or the error itself if it is not a request error
+ */
+export function toThreadsAPIError(error: unknown): Error {
+  if (error instanceof ThreadsAPIError) {
+    return error;
+  }
+  if (!isAxiosError(error)) {
+    return error instanceof Error ? error : new Error(String(error));
+  }
+  if (!error.response) {
+    return new ThreadsNetworkError(error.message, { cause: error });
+  }
+
+  const { status, data, headers } = error.response;
+  return createGraphError({
+    status,
+    data,
+    headers,
+    message: error.message,
+    cause: error,
+  });
+}
@@ -1,16 +1,274 @@
-import axios, { AxiosResponse } from "axios";
+import {
+  PostViolation,
+  ThreadsAPIError,
+  ThreadsChainError,
+  ThreadsOAuthError,
+  ThreadsContainerError,
+  ThreadsContainerTimeoutError,
+  ThreadsQuotaExceededError,
+  ThreadsValidationError,
+  createGraphError,
+  toThreadsAPIError,
+} from "./errors";
+import {
+  DEFAULT_RETRY_OPTIONS,
+  RetryOptions,
+  abortReason,
+  getRetryDelay,
+  isRetryableError,
+  sleep,
+} from "./retry";
+import {
+  assertValid,
+  validateCarouselContainer,
+  validateCarouselItem,
+  validateMediaContainer,
+  validatePost,
+} from "./validation";
+import {
+  DEFAULT_TOKEN_KEY,
+  StoredToken,
+  TokenManager,
+  TokenStore,
+} from "./tokens";
+import {
+  generateState,
+  getMissingScopes,
+  normalizeAuthorizationCode,
+  parseCallbackUrl,
+  verifyState,
+} from "./oauth";
+import { AppCallback, parseAppCallback } from "./callbacks";
+import { GraphBatchResponse, MAX_BATCH_SIZE, ThreadsBatch } from "./batch";
+import { mapSettled } from "./concurrency";
+import {
+  AxiosTransportOptions,
+  HttpMethod,
+  HttpRequest,
+  HttpTransport,
+  createAxiosTransport,
+} from "./transport";
+import {
+  CONVERSATION_TREE_FIELDS,
+  ConversationReply,
+  ConversationTree,
+  buildConversationTree,
+} from "./conversation";
+import {
+  PUBLISHING_LIMIT_FIELDS,
+  PublishingLimit,
+  RateLimitTracker,
+} from "./quota";
+import {
+  UNRANGED_USER_METRICS,
+  mergeUserMetrics,
+  splitTimeRange,
+} from "./insights";
+
+export * from "./errors";
+export {
+  TokenManager,
+  TokenManagerOptions,
+  TokenStore,
+  StoredToken,
+  InMemoryTokenStore,
+  FileTokenStore,
+  DEFAULT_TOKEN_KEY,
+  toStoredToken,
+} from "./tokens";
+export {
+  validatePost,
+  countCharacters,
+  MAX_TEXT_LENGTH,
+  MAX_LINKS,
+  MIN_CAROUSEL_ITEMS,
+  MAX_CAROUSEL_ITEMS,
+} from "./validation";
+export { RetryOptions, DEFAULT_RETRY_OPTIONS } from "./retry";
+export * from "./webhooks";
+export {
+  AuthorizationCallback,
+  generateState,
+  verifyState,
+  parseCallbackUrl,
+  getMissingScopes,
+  normalizeAuthorizationCode,
+} from "./oauth";
+export {
+  AppCallback,
+  DataDeletionResponse,
+  SignedRequestPayload,
+  parseSignedRequest,
+  parseAppCallback,
+  createDataDeletionResponse,
+} from "./callbacks";
+export {
+  ThreadsBatch,
+  BatchOperation,
+  BatchRequest,
+  MAX_BATCH_SIZE,
+} from "./batch";
+export { SettledResult } from "./concurrency";
+export {
+  HttpMethod,
+  HttpRequest,
+  HttpResponse,
+  HttpTransport,
+  AxiosTransportOptions,
+  FetchFunction,
+  createAxiosTransport,
+  createFetchTransport,
+} from "./transport";
+export {
+  ConversationTree,
+  ConversationNode,
+  ConversationReply,
+  buildConversationTree,
+  walkConversation,
+  filterConversation,
+  flattenConversation,
+} from "./conversation";
+export {
+  ReplyModerator,
+  ReplyModeratorOptions,
+  ModerationRule,
+  ModerationAction,
+  ModerationDecision,
+  ModeratedReply,
+  MODERATION_FIELDS,
+  keywordRule,
+  regexRule,
+  linkRule,
+  denyUsersRule,
+} from "./moderation";
+export {
+  PublishingLimit,
+  QuotaConfig,
+  RateLimitState,
+  RateLimitTracker,
+  AppUsage,
+  BusinessUseCaseUsage,
+  parseUsageHeaders,
+} from "./quota";
+export {
+  PublishScheduler,
+  PublishSchedulerOptions,
+  ScheduledJob,
+  ScheduledJobStatus,
+  JobStore,
+  InMemoryJobStore,
+  FileJobStore,
+} from "./scheduler";
+export {
+  InsightsRow,
+  TimeWindow,
+  EARLIEST_INSIGHTS_TIMESTAMP,
+  MAX_INSIGHTS_WINDOW,
+  splitTimeRange,
+  mergeUserMetrics,
+  summarizeMetrics,
+  getEngagementRate,
+  flattenInsights,
+  insightsToCSV,
+  insightsToJSON,
+} from "./insights";
+
+/**
+ * A Threads user profile.
+ */
+export interface ThreadsUser {
+  id: string;
+  username: string;
+  name: string;
+  threads_profile_picture_url: string;
+  threads_biography: string;
+  is_verified: boolean;
+  /**
+   * URLs of the links shown on the profile.
+   */
+  profile_links: string[];
+}
 
 /**
  * Fields when trying to get profile information about a Threads user.
  */
-type ProfileFields =
-  | "id"
-  | "username"
-  | "name"
-  | "threads_profile_picture_url"
-  | "threads_biography";
+export type ProfileFields = keyof ThreadsUser;
 
-type RetrieveRepliesFields =
+/**
+ * The media type of a published Threads media object.
+ */
+export type ThreadsMediaType =
+  | "TEXT_POST"
+  | "IMAGE"
+  | "VIDEO"
+  | "CAROUSEL_ALBUM"
+  | "AUDIO"
+  | "REPOST_FACADE";
+
+export type HideStatus =
+  | "NOT_HUSHED"
+  | "UNHUSHED"
+  | "HIDDEN"
+  | "COVERED"
+  | "BLOCKED"
+  | "RESTRICTED";
+
+export type ReplyAudience =
+  | "EVERYONE"
+  | "ACCOUNTS_YOU_FOLLOW"
+  | "MENTIONED_ONLY"
+  | "PARENT_POST_AUTHOR_ONLY"
+  | "FOLLOWERS_ONLY";
+
+/**
+ * A reference to another media object, as returned for nested fields.
+ * Only the `id` is guaranteed; other fields are present when requested with
+ * field expansion (e.g. `children{id,media_url}`).
+ */
+export type ThreadsMediaReference = Pick<ThreadsMedia, "id"> &
+  Partial<Omit<ThreadsMedia, "id">>;
+
+/**
+ * A Threads media object (post, reply or carousel item).
+ * Fields that the API only returns for some media types are optional.
+ */
+export interface ThreadsMedia {
+  id: string;
+  media_product_type: "THREADS";
+  media_type: ThreadsMediaType;
+  media_url?: string;
+  permalink: string;
+  owner: { id: string };
+  username: string;
+  text?: string;
+  timestamp: string;
+  shortcode: string;
+  thumbnail_url?: string;
+  children?: { data: ThreadsMediaReference[] };
+  is_quote_post: boolean;
+  quoted_post?: ThreadsMediaReference;
+  reposted_post?: ThreadsMediaReference;
+  alt_text?: string;
+  link_attachment_url?: string;
+  topic_tag?: string;
+  has_replies: boolean;
+  root_post?: ThreadsMediaReference;
+  replied_to?: ThreadsMediaReference;
+  is_reply: boolean;
+  is_reply_owned_by_me: boolean;
+  hide_status?: HideStatus;
+  reply_audience: ReplyAudience;
+}
+
+/**
+ * Fields when trying to retrieve Threads media objects.
+ */
+export type MediaFields = keyof ThreadsMedia;
+
+/**
+ * Fields when trying to retrieve replies to a thread.
+ */
+export type RetrieveRepliesFields =
   | "id"
   | "text"
   | "username"
@@ -31,14 +289,84 @@ type RetrieveRepliesFields =
   | "hide_status"
   | "reply_audience";
 
-type Scope =
+/**
+ * A media object containing only the requested fields. The API always returns `id`.
+ */
+export type ThreadsMediaObject<F extends MediaFields> = Pick<
+  ThreadsMedia,
+  F | "id"
+>;
+
+/**
+ * A user profile containing only the requested fields. The API always returns `id`.
+ */
+export type ThreadsUserProfile<F extends ProfileFields> = Pick<
+  ThreadsUser,
+  F | "id"
+>;
+
+/**
+ * A public Threads profile, as returned by `lookupProfile`. Counts cover the
+ * profile's lifetime.
+ */
+export interface PublicProfile {
+  username: string;
+  name: string;
+  profile_picture_url: string;
+  biography: string;
+  is_verified: boolean;
+  /**
+   * URLs of the links shown on the profile.
+   */
+  profile_links: string[];
+  follower_count: number;
+  likes_count: number;
+  quotes_count: number;
+  replies_count: number;
+  reposts_count: number;
+  views_count: number;
+}
+
+export type PublicProfileFields = keyof PublicProfile;
+
+/**
+ * Fields fetched by `lookupProfile` when none are given: every documented field.
+ */
+export const PUBLIC_PROFILE_FIELDS = [
+  "username",
+  "name",
+  "profile_picture_url",
+  "biography",
+  "is_verified",
+  "profile_links",
+  "follower_count",
+  "likes_count",
+  "quotes_count",
+  "replies_count",
+  "reposts_count",
+  "views_count",
+] as const;
+
+/**
+ * A public profile containing only the requested fields.
+ */
+export type PublicProfileObject<F extends PublicProfileFields> = Pick<
+  PublicProfile,
+  F
+>;
+
+export type Scope =
   | "threads_basic"
   | "threads_content_publish"
   | "threads_manage_insights"
   | "threads_manage_replies"
-  | "threads_read_replies";
+  | "threads_read_replies"
+  | "threads_keyword_search"
+  | "threads_manage_mentions"
+  | "threads_delete"
+  | "threads_profile_discovery";
 
-type ContainerStatus =
+export type ContainerStatus =
   | "EXPIRED"
   | "ERROR"
   | "FINISHED"
@@ -55,47 +383,279 @@ export interface ThreadsAPIConfig {
    * The scopes of access granted by the access_token expressed as a list of comma-delimited, or space-delimited, case-sensitive strings.
    */
   scope: Scope[];
+  /**
+   * Retry behaviour for failed requests. Defaults to DEFAULT_RETRY_OPTIONS.
+   */
+  retry?: RetryOptions;
+  /**
+   * Where `tokens` persists access tokens. Defaults to an InMemoryTokenStore.
+   */
+  tokenStore?: TokenStore;
+  /**
+   * Seconds before expiry at which stored long-lived tokens are refreshed. Defaults to 7 days.
+   */
+  tokenRefreshWindow?: number;
+  /**
+   * Base URL of the Graph API, e.g. the `baseUrl` of a MockThreadsServer.
+   * Overrides `graphHost` and `apiVersion`.
+   */
+  baseUrl?: string;
+  /**
+   * Origin of the Graph API. Defaults to `https://graph.threads.net`.
+   */
+  graphHost?: string;
+  /**
+   * Graph API version. Defaults to `v1.0`.
+   */
+  apiVersion?: string;
+  /**
+   * Origin of the page users are sent to for authorization. Defaults to `https://threads.net`.
+   */
+  authorizationHost?: string;
+  /**
+   * Milliseconds after which a call is abandoned, including its retries and the
+   * waits between them. No limit by default.
+   */
+  timeout?: number;
+  /**
+   * Headers sent with every request.
+   */
+  headers?: Record<string, string>;
+  /**
+   * Sends the HTTP requests. Defaults to an axios transport built from `proxy`, `httpAgent` and `httpsAgent`.
+   */
+  transport?: HttpTransport;
+  /**
+   * Proxy settings for the default transport, or false to ignore proxy environment variables.
+   */
+  proxy?: AxiosTransportOptions["proxy"];
+  /**
+   * Agent used by the default transport for `http:` URLs.
+   */
+  httpAgent?: AxiosTransportOptions["httpAgent"];
+  /**
+   * Agent used by the default transport for `https:` URLs.
+   */
+  httpsAgent?: AxiosTransportOptions["httpsAgent"];
+  /**
+   * Check the publishing quota before creating containers in `publishPost`,
+   * `createPostContainer` and `publishThreadChain`. Defaults to false.
+   */
+  checkPublishingQuota?: boolean;
+}
+
+export const DEFAULT_GRAPH_HOST = "https://graph.threads.net";
+export const DEFAULT_API_VERSION = "v1.0";
+export const DEFAULT_AUTHORIZATION_HOST = "https://threads.net";
+
+/**
+ * Settings that apply to a single API call.
+ */
+export interface RequestOptions {
+  /**
+   * Overrides the client's retry options for this call. Pass `false` to disable retries.
+   */
+  retry?: RetryOptions | false;
+  /**
+   * Access token to use for this call instead of the client's token.
+   */
+  accessToken?: string;
+  /**
+   * Overrides the client's timeout for this call, in milliseconds.
+   */
+  timeout?: number;
+}
+
+// A single HTTP request made by ThreadsAPI
+interface ApiRequest {
+  url: string;
+  method: HttpMethod;
+  params: Record<string, string> | URLSearchParams;
+  idempotent?: boolean;
+  authenticate?: boolean;
+  requestOptions?: RequestOptions;
 }
 
 /**
  * Note: Type CAROUSEL is not available for single thread posts.
  */
 export type MediaType = "TEXT" | "IMAGE" | "VIDEO" | "CAROUSEL";
-type ReplyControl = "everyone" | "accounts_you_follow" | "mentioned_only";
+export type ReplyControl =
+  | "everyone"
+  | "accounts_you_follow"
+  | "mentioned_only"
+  | "parent_post_author_only"
+  | "followers_only";
+
+/**
+ * Options shared by every container-creation method.
+ */
+export interface PostOptions {
+  /**
+   * Who can reply to the post.
+   */
+  replyControl?: ReplyControl;
+  /**
+   * ID of the post this one replies to.
+   */
+  replyToId?: string;
+  /**
+   * ID of the post to quote.
+   */
+  quotePostId?: string;
+  /**
+   * Accessibility text for an image or video.
+   */
+  altText?: string;
+  /**
+   * URL to attach as a link preview. Only available for text posts.
+   */
+  linkAttachment?: string;
+  /**
+   * ISO 3166-1 alpha-2 country codes the post is visible in. Visible everywhere if omitted.
+   */
+  allowlistedCountryCodes?: string[];
+  /**
+   * Topic tag to categorize the post, without the leading `#`.
+   */
+  topicTag?: string;
+}
 
 interface MediaContainer {
   id: string;
 }
 
-// Available metric names for both Media and User Insights
-type MetricName =
+export interface CarouselItemInput {
+  mediaType: "IMAGE" | "VIDEO";
+  mediaUrl: string;
+  altText?: string;
+}
+
+/**
+ * The content of a post to publish with `publishPost`.
+ */
+export type PostInput = PostOptions &
+  (
+    | { mediaType: "TEXT"; text: string }
+    | { mediaType: "IMAGE" | "VIDEO"; mediaUrl: string; text?: string }
+    | { mediaType: "CAROUSEL"; items: CarouselItemInput[]; text?: string }
+  );
+
+export interface WaitForContainerOptions {
+  /**
+   * Milliseconds between two status checks. Defaults to 10 seconds.
+   */
+  pollInterval?: number;
+  /**
+   * Milliseconds after which to give up waiting. Defaults to 5 minutes.
+   */
+  timeout?: number;
+  /**
+   * Signal to stop waiting early.
+   */
+  signal?: AbortSignal;
+}
+
+export interface QuotaCheckOptions {
+  /**
+   * Check the publishing quota before creating any container, throwing a
+   * ThreadsQuotaExceededError when it is used up. Defaults to the client's
+   * `checkPublishingQuota` setting.
+   */
+  checkQuota?: boolean;
+}
+
+export interface PublishPostOptions
+  extends WaitForContainerOptions,
+    QuotaCheckOptions {
+  /**
+   * Whether to fetch the permalink of the published post.
+   */
+  fetchPermalink?: boolean;
+}
+
+/**
+ * A single post of a thread chain. Carousels are not supported in chains.
+ */
+export type ThreadChainSegment = Exclude<PostInput, { mediaType: "CAROUSEL" }>;
+
+export interface PublishThreadChainOptions
+  extends WaitForContainerOptions,
+    QuotaCheckOptions {
+  /**
+   * IDs of segments already published by a previous attempt, in order.
+   * Publishing resumes with the segment that follows them.
+   */
+  publishedIds?: string[];
+}
+
+export interface PublishedPost {
+  id: string;
+  permalink?: string;
+}
+
+/**
+ * Metrics available for a single media object.
+ */
+export type MediaMetricName =
+  | "views"
+  | "likes"
+  | "replies"
+  | "reposts"
+  | "quotes"
+  | "shares";
+
+/**
+ * Metrics available for a user's account.
+ */
+export type UserMetricName =
   | "views"
   | "likes"
   | "replies"
   | "reposts"
   | "quotes"
+  | "clicks"
   | "followers_count"
   | "follower_demographics";
 
+// Available metric names for both Media and User Insights
+export type MetricName = MediaMetricName | UserMetricName;
+
+/**
+ * Dimension to break `follower_demographics` down by.
+ */
+export type DemographicBreakdown = "country" | "city" | "age" | "gender";
+
 // Structure for a single metric value (used in Media Insights)
-interface MetricValue {
+export interface MetricValue {
   value: number;
 }
 
 // Structure for a single time series value (used in User Insights)
-interface TimeSeriesValue {
+export interface TimeSeriesValue {
   value: number;
   end_time: string;
 }
 
+// Structure for a breakdown of a total value, e.g. follower_demographics by country
+export interface MetricBreakdown {
+  dimension_keys: string[];
+  results: { dimension_values: string[]; value: number }[];
+}
+
 // Structure for a total value (used in User Insights)
-interface TotalValue {
+export interface TotalValue {
   value: number;
+  breakdowns?: MetricBreakdown[];
+  /**
+   * Clicks per link, only returned for the `clicks` metric.
+   */
+  link_total_values?: { value: number; link_url: string }[];
 }
 
 // Structure for a single metric in Media Insights
-interface MediaMetric {
-  name: MetricName;
+export interface MediaMetric {
+  name: MediaMetricName;
   period: TimePeriod;
   values: MetricValue[];
   title: string;
@@ -104,8 +664,8 @@ interface MediaMetric {
 }
 
 // Structure for a single metric in User Insights
-interface UserMetric {
-  name: MetricName;
+export interface UserMetric {
+  name: UserMetricName;
   period: TimePeriod;
   values?: TimeSeriesValue[];
   total_value?: TotalValue;
@@ -114,7 +674,7 @@ interface UserMetric {
   id: string;
 }
 
-interface ContainerStatusResponse {
+export interface ContainerStatusResponse {
   status: ContainerStatus;
   id: string;
   error_message?: string;
@@ -132,14 +692,164 @@ interface ThreadsUserInsightsResponse {
 
 // Parameters for the User Insights API request
 interface ThreadsUserInsightsParams {
-  metric: MetricName | MetricName[];
+  metric: UserMetricName | UserMetricName[];
   options?: {
     since?: number; // Unix timestamp
     until?: number; // Unix timestamp
+    /**
+     * Required when requesting `follower_demographics`.
+     */
+    breakdown?: DemographicBreakdown;
   };
 }
 
-interface TokenResponse {
+// Number of insights requests made at once by getBulkMediaInsights
+const DEFAULT_INSIGHTS_CONCURRENCY = 5;
+
+// Number of deletions made at once by bulkDeleteThreads
+const DEFAULT_DELETE_CONCURRENCY = 3;
+
+/**
+ * Fields fetched for every post considered by `bulkDeleteThreads`.
+ */
+export const BULK_DELETE_FIELDS = [
+  "id",
+  "text",
+  "timestamp",
+  "media_type",
+  "permalink",
+] as const;
+
+export type BulkDeleteCandidate = ThreadsMediaObject<
+  (typeof BULK_DELETE_FIELDS)[number]
+>;
+
+/**
+ * Which posts `bulkDeleteThreads` deletes. Posts must match every condition given.
+ */
+export interface DeleteThreadsFilter {
+  /**
+   * Only posts published at or after this time, as a Unix timestamp or date string.
+   */
+  since?: string;
+  /**
+   * Only posts published at or before this time, as a Unix timestamp or date string.
+   */
+  until?: string;
+  /**
+   * Only posts whose text contains this string, ignoring case, or matches this pattern.
+   */
+  text?: string | RegExp;
+  /**
+   * Only posts of these types.
+   */
+  mediaTypes?: readonly ThreadsMediaType[];
+  /**
+   * Any other condition, applied after the ones above.
+   */
+  predicate?: (post: BulkDeleteCandidate) => boolean;
+}
+
+/**
+ * Outcome of deleting, or planning to delete, a single post.
+ */
+export interface BulkDeleteResult {
+  post: BulkDeleteCandidate;
+  /**
+   * Whether the post was deleted. Always false in dry-run mode.
+   */
+  deleted: boolean;
+  dryRun: boolean;
+  error?: Error;
+}
+
+/**
+ * Outcome of fetching insights for many posts at once.
+ */
+export interface BulkMediaInsightsResult {
+  /**
+   * Metrics of every post that succeeded, keyed by media ID.
+   */
+  insights: Map<string, MediaMetric[]>;
+  /**
+   * Error of every post that failed, keyed by media ID.
+   */
+  errors: Map<string, Error>;
+}
+
+/**
+ * Cursors pointing at the first and last item of a page of results.
+ */
+export interface PagingCursors {
+  before?: string;
+  after?: string;
+}
+
+/**
+ * Paging information returned alongside every list response.
+ */
+export interface Paging {
+  cursors?: PagingCursors;
+  /**
+   * URL of the next page. Absent on the last page.
+   */
+  next?: string;
+  /**
+   * URL of the previous page. Absent on the first page.
+   */
+  previous?: string;
+}
+
+/**
+ * A single page of results from a list endpoint.
+ */
+export interface Page<T> {
+  data: T[];
+  paging?: Paging;
+}
+
+/**
+ * Cursor-based pagination parameters accepted by list endpoints.
+ */
+export interface PaginationOptions {
+  /**
+   * Maximum number of items per page.
+   */
+  limit?: number;
+  /**
+   * Cursor to resume after, usually `paging.cursors.after` of a previous page.
+   */
+  after?: string;
+  /**
+   * Cursor to page backwards from, usually `paging.cursors.before` of a previous page.
+   */
+  before?: string;
+}
+
+interface UserThreadsOptions extends PaginationOptions {
+  since?: string;
+  until?: string;
+}
+
+export type SearchType = "TOP" | "RECENT";
+export type SearchMode = "KEYWORD" | "TAG";
+
+export interface KeywordSearchOptions extends UserThreadsOptions {
+  /**
+   * Whether to return the most popular or the most recent posts first. Defaults to TOP.
+   */
+  searchType?: SearchType;
+  /**
+   * Whether `query` is a keyword or a topic tag. Defaults to KEYWORD.
+   */
+  searchMode?: SearchMode;
+  /**
+   * Only return posts of this type.
+   */
+  mediaType?: "TEXT" | "IMAGE" | "VIDEO";
+}
+
+export interface TokenResponse {
   /**
    * A token that can be sent to a Threads API.
    */
@@ -149,24 +859,229 @@ interface TokenResponse {
    */
   token_type: string;
   /**
-   * The time in seconds at which this token is thought to expire.
+   * The number of seconds until this token expires.
    */
   expires_in: number;
+  /**
+   * The ID of the user the token belongs to. Only returned by the authorization code exchange.
+   */
+  user_id?: string | number;
+}
+
+/**
+ * Information about an access token, as returned by the debug_token endpoint.
+ */
+export interface TokenDebugInfo {
+  type: string;
+  application: string;
+  /**
+   * Unix timestamp in seconds at which access to the user's data expires.
+   */
+  data_access_expires_at?: number;
+  /**
+   * Unix timestamp in seconds at which the token expires, or 0 if it does not.
+   */
+  expires_at: number;
+  is_valid: boolean;
+  /**
+   * Unix timestamp in seconds at which the token was issued.
+   */
+  issued_at?: number;
+  scopes?: Scope[];
+  user_id?: string;
+  error?: { code: number; message: string; subcode?: number };
+}
+
+/**
+ * Outcome of a completed OAuth authorization.
+ */
+export interface AuthorizationResult {
+  /**
+   * The long-lived token, as saved in `tokens`.
+   */
+  token: StoredToken;
+  userId?: string;
+  /**
+   * The configured scopes the user granted.
+   */
+  grantedScopes: Scope[];
+  /**
+   * The configured scopes the user did not grant.
+   */
+  missingScopes: Scope[];
+}
+
+/**
+ * Convert post options into container-creation parameters
+ * @param options The post options
+ * @returns The request parameters
+ */
+function postOptionsParams(options?: PostOptions): Record<string, string> {
+  return {
+    ...(options?.replyControl && { reply_control: options.replyControl }),
+    ...(options?.replyToId && { reply_to_id: options.replyToId }),
+    ...(options?.quotePostId && { quote_post_id: options.quotePostId }),
+    ...(options?.altText && { alt_text: options.altText }),
+    ...(options?.linkAttachment && {
+      link_attachment: options.linkAttachment,
+    }),
+    ...(options?.allowlistedCountryCodes?.length && {
+      allowlisted_country_codes: options.allowlistedCountryCodes.join(","),
+    }),
+    ...(options?.topicTag && { topic_tag: options.topicTag }),
+  };
+}
+
+/**
+ * Check a post against the filter of `bulkDeleteThreads`
+ * @param post The post
+ * @param filter The filter
+ * @returns Whether the post should be deleted
+ */
+function matchesDeleteFilter(
+  post: BulkDeleteCandidate,
+  filter: DeleteThreadsFilter,
+): boolean {
+  const text = post.text ?? "";
+  if (typeof filter.text === "string") {
+    if (!text.toLowerCase().includes(filter.text.toLowerCase())) {
+      return false;
+    }
+  } else if (filter.text) {
+    // Global patterns keep state between calls
+    filter.text.lastIndex = 0;
+    if (!filter.text.test(text)) {
+      return false;
+    }
+  }
+  if (filter.mediaTypes && !filter.mediaTypes.includes(post.media_type)) {
+    return false;
+  }
+  return filter.predicate ? filter.predicate(post) : true;
+}
+
+/**
+ * Strip the leading `@` users often type before a username
+ * @param username The username
+ * @returns The username as expected by the API
+ */
+function normalizeUsername(username: string): string {
+  return username.trim().replace(/^@/, "");
+}
+
+/**
+ * Convert pagination options into query parameters
+ * @param options The pagination options
+ * @returns The query parameters
+ */
+function paginationParams(options?: PaginationOptions): Record<string, string> {
+  return {
+    ...(options?.limit && { limit: options.limit.toString() }),
+    ...(options?.after && { after: options.after }),
+    ...(options?.before && { before: options.before }),
+  };
 }
 
+const DEFAULT_POLL_INTERVAL = 10000;
+const DEFAULT_POLL_TIMEOUT = 300000;
+
 export class ThreadsAPI {
   private config: ThreadsAPIConfig;
 
   private accessToken: string | null = null;
 
-  private baseUrl = "https://graph.threads.net/v1.0/";
+  // Key of this client's token in `tokens`; user-scoped clients use their user ID
+  private tokenKey: string = DEFAULT_TOKEN_KEY;
+
+  private baseUrl: string;
+
+  private transport: HttpTransport;
+
+  /**
+   * Stored access tokens, refreshed automatically before requests when they are about to expire.
+   */
+  readonly tokens: TokenManager;
+
+  /**
+   * Usage of the app-level call limits, updated from the headers of every response.
+   */
+  readonly rateLimits = new RateLimitTracker();
 
   constructor(config: ThreadsAPIConfig) {
     this.config = config;
+    this.baseUrl = config.baseUrl
+      ? config.baseUrl.replace(/\/?$/, "/")
+      : `${(config.graphHost ?? DEFAULT_GRAPH_HOST).replace(/\/+$/, "")}/${
+          config.apiVersion ?? DEFAULT_API_VERSION
+        }/`;
+    this.transport =
+      config.transport ??
+      createAxiosTransport({
+        proxy: config.proxy,
+        httpAgent: config.httpAgent,
+        httpsAgent: config.httpsAgent,
+      });
+    this.tokens = new TokenManager(this, {
+      store: config.tokenStore,
+      refreshWindow: config.tokenRefreshWindow,
+    });
+  }
+
+  /**
+   * Derive a client that acts on behalf of another user.
+   * The derived client shares this client's configuration and token store, so
+   * creating one per request is cheap and concurrent requests for different
+   * users never see each other's tokens.
+   * @param userId The user ID. Tokens saved in `tokens` under this key are used and refreshed automatically.
+   * @param accessToken Optional token to use instead of the one stored for the user
+   * @returns The user-scoped client
+   */
+  forUser(userId: string, accessToken?: string): ThreadsAPI {
+    const client: ThreadsAPI = Object.create(this);
+    client.tokenKey = userId;
+    client.accessToken = accessToken ?? null;
+    return client;
+  }
+
+  /**
+   * Start a Graph batch. Calls queued with `add` are sent together when
+   * `execute` is called, in chunks of up to MAX_BATCH_SIZE operations.
+   * @param requestOptions Optional settings for the batch requests, such as retry overrides
+   * @returns The batch builder
+   */
+  batch(requestOptions?: RequestOptions): ThreadsBatch {
+    return new ThreadsBatch({
+      baseUrl: this.baseUrl,
+      record: (onRequest) => {
+        const client: ThreadsAPI = Object.create(this);
+        client.makeRequest = <T>(request: ApiRequest): Promise<T> => {
+          const recorded = onRequest({
+            url: request.url,
+            method: request.method,
+            params: request.params,
+            idempotent: request.idempotent ?? request.method === "GET",
+            requestOptions: request.requestOptions,
+          });
+          return (
+            (recorded as Promise<T> | undefined) ?? this.makeRequest<T>(request)
+          );
+        };
+        return client;
+      },
+      send: (operations, idempotent) =>
+        this.makeRequest<GraphBatchResponse[]>({
+          url: this.baseUrl,
+          method: "POST",
+          params: new URLSearchParams({ batch: JSON.stringify(operations) }),
+          idempotent,
+          requestOptions,
+        }),
+    });
   }
 
   /**
-   * Set the access token for the API
+   * Set the access token for the API. It takes precedence over the token stored
+   * in `tokens`, which is then neither used nor refreshed.
    * @param accessToken The access token
    * @returns void
    */
@@ -174,7 +1089,13 @@ export class ThreadsAPI {
     this.accessToken = accessToken;
   }
 
-  // Token Management
+  /**
+   * Refresh a long-lived token if less than a week is left before it expires
+   * @param accessToken The long-lived access token
+   * @param expiresIn Unix timestamp in seconds at which the token expires
+   * @returns The refreshed token, or the given token if it did not need refreshing
+   * @deprecated Store tokens with `tokens.save` instead; they are then refreshed automatically.
+   */
   async refreshTokenIfNeeded({
     accessToken,
     expiresIn,
@@ -204,7 +1125,9 @@ export class ThreadsAPI {
    * @returns The authorization URL
    */
   getAuthorizationUrl(state?: string): string {
-    const baseUrl = "https://threads.net/oauth/authorize";
+    const baseUrl = `${(
+      this.config.authorizationHost ?? DEFAULT_AUTHORIZATION_HOST
+    ).replace(/\/+$/, "")}/oauth/authorize`;
     const params = new URLSearchParams({
       client_id: this.config.clientId,
       redirect_uri: this.config.redirectUri,
@@ -216,40 +1139,106 @@ export class ThreadsAPI {
     return `${baseUrl}?${params.toString()}`;
   }
 
+  /**
+   * Start the OAuth flow with a random state to protect against CSRF
+   * @returns The authorization URL, and the state to keep (e.g. in the user's session) until the callback
+   */
+  createAuthorizationRequest(): { url: string; state: string } {
+    const state = generateState();
+    return { url: this.getAuthorizationUrl(state), state };
+  }
+
+  /**
+   * Finish the OAuth flow from the URL Threads redirected the user to.
+   * Verifies the state, exchanges the code for a long-lived token, saves it
+   * in `tokens` and checks which of the configured scopes were granted.
+   * @param callbackUrl The full redirect URL, or just its query string
+   * @param expectedState The state returned by createAuthorizationRequest
+   * @param key The key to save the token under in `tokens`, e.g. the user ID when managing several accounts
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns The saved token, the user ID and the granted and missing scopes
+   * @throws ThreadsOAuthError if the user denied access or the state does not match
+   */
+  async completeAuthorization(
+    {
+      callbackUrl,
+      expectedState,
+      key,
+    }: {
+      callbackUrl: string | URL;
+      expectedState: string;
+      key?: string;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<AuthorizationResult> {
+    const { code, state } = parseCallbackUrl(callbackUrl);
+    if (!verifyState(expectedState, state)) {
+      throw new ThreadsOAuthError(
+        "The state returned to the redirect URI does not match",
+        { error: "state_mismatch" },
+      );
+    }
+
+    const shortLived = await this.exchangeAuthorizationCode(
+      code,
+      requestOptions,
+    );
+    const token = await this.tokens.save(shortLived, { key });
+    const granted = await this.getGrantedScopes(
+      token.accessToken,
+      requestOptions,
+    );
+    const missingScopes = getMissingScopes(granted, this.config.scope);
+
+    return {
+      token,
+      userId: token.userId,
+      grantedScopes: this.config.scope.filter(
+        (scope) => !missingScopes.includes(scope),
+      ),
+      missingScopes,
+    };
+  }
+
+  /**
+   * Retrieve the scopes granted to an access token
+   * @param accessToken The access token to inspect
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns The granted scopes
+   */
+  async getGrantedScopes(
+    accessToken: string,
+    requestOptions?: RequestOptions,
+  ): Promise<Scope[]> {
+    const info = await this.debugToken(accessToken, requestOptions);
+    return info.scopes ?? [];
+  }
+
   /**
    * Exchange authorization code for a short-lived access token
    * @param code The authorization code
+   * @param requestOptions Optional per-request settings, such as retry overrides
    * @returns Object containing short-lived access token and user ID
    */
-  async getAccessToken(code: string): Promise<TokenResponse> {
-    const url = `${this.baseUrl}oauth/access_token`;
-    const params = new URLSearchParams({
-      client_id: this.config.clientId,
-      client_secret: this.config.clientSecret,
-      grant_type: "authorization_code",
-      redirect_uri: this.config.redirectUri,
-      code,
-    });
-
-    try {
-      const response = await this.makeRequest<TokenResponse>({
-        url,
-        method: "POST",
-        params,
-      });
-      this.accessToken = response.access_token;
-      return response;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+  async getAccessToken(
+    code: string,
+    requestOptions?: RequestOptions,
+  ): Promise<TokenResponse> {
+    const response = await this.exchangeAuthorizationCode(code, requestOptions);
+    this.accessToken = response.access_token;
+    return response;
   }
 
   /**
    * Exchange short-lived token for long-lived token
    * @param shortLivedToken The short-lived access token
+   * @param requestOptions Optional per-request settings, such as retry overrides
    * @returns Object containing long-lived access token
    */
-  async getLongLivedToken(shortLivedToken: string): Promise<TokenResponse> {
+  async getLongLivedToken(
+    shortLivedToken: string,
+    requestOptions?: RequestOptions,
+  ): Promise<TokenResponse> {
     const url = `${this.baseUrl}access_token`;
     const params = new URLSearchParams({
       grant_type: "th_exchange_token",
@@ -257,40 +1246,101 @@ export class ThreadsAPI {
       access_token: shortLivedToken,
     });
 
-    try {
-      const response = await this.makeRequest<TokenResponse>({
-        url,
-        method: "GET",
-        params,
-      });
-      return { ...response };
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    const response = await this.makeRequest<TokenResponse>({
+      url,
+      method: "GET",
+      params,
+      authenticate: false,
+      requestOptions,
+    });
+    return { ...response };
   }
 
   /**
    * Refresh long-lived token
    * @param longLivedToken The long-lived access token to refresh
+   * @param requestOptions Optional per-request settings, such as retry overrides
    * @returns The new long-lived access token
    */
-  async refreshLongLivedToken(longLivedToken: string): Promise<TokenResponse> {
+  async refreshLongLivedToken(
+    longLivedToken: string,
+    requestOptions?: RequestOptions,
+  ): Promise<TokenResponse> {
     const url = `${this.baseUrl}refresh_access_token`;
     const params = new URLSearchParams({
       grant_type: "th_refresh_token",
       access_token: longLivedToken,
     });
 
-    try {
-      const response = await this.makeRequest<TokenResponse>({
-        url,
-        method: "GET",
-        params,
-      });
-      return { ...response };
-    } catch (error) {
-      throw this.handleError(error);
+    const response = await this.makeRequest<TokenResponse>({
+      url,
+      method: "GET",
+      params,
+      authenticate: false,
+      requestOptions,
+    });
+    return { ...response };
+  }
+
+  /**
+   * Inspect an access token: its owner, scopes, expiry and validity.
+   * The request is made with the app access token, so expired and revoked tokens can be inspected too.
+   * @param inputToken The access token to inspect
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns Information about the token
+   */
+  async debugToken(
+    inputToken: string,
+    requestOptions?: RequestOptions,
+  ): Promise<TokenDebugInfo> {
+    const url = `${this.baseUrl}debug_token`;
+    const params = new URLSearchParams({
+      access_token: `${this.config.clientId}|${this.config.clientSecret}`,
+      input_token: inputToken,
+    });
+
+    const response = await this.makeRequest<{ data: TokenDebugInfo }>({
+      url,
+      method: "GET",
+      params,
+      authenticate: false,
+      requestOptions,
+    });
+    return response.data;
+  }
+
+  /**
+   * Handle the deauthorize callback Meta sends when a user removes the app.
+   * Verifies the `signed_request` and deletes the token stored for the user,
+   * under their user ID or under the default key of a single-account client.
+   * @param body The form-encoded request body
+   * @returns The user who removed the app
+   * @throws ThreadsSignedRequestError if the body has no valid `signed_request`
+   */
+  async handleDeauthorizeCallback(
+    body: string | URLSearchParams | Record<string, unknown>,
+  ): Promise<AppCallback> {
+    const callback = parseAppCallback(body, this.config.clientSecret);
+    await this.tokens.delete(callback.userId);
+    const defaultToken = await this.tokens.get(DEFAULT_TOKEN_KEY);
+    if (defaultToken?.userId === callback.userId) {
+      await this.tokens.delete(DEFAULT_TOKEN_KEY);
     }
+    return callback;
+  }
+
+  /**
+   * Handle the data deletion callback Meta sends when a user asks for their data to be deleted.
+   * Verifies the `signed_request` and deletes the token stored for the user;
+   * delete the rest of the user's data, then respond with `createDataDeletionResponse`.
+   * @param body The form-encoded request body
+   * @returns The user whose data must be deleted
+   * @throws ThreadsSignedRequestError if the body has no valid `signed_request`
+   */
+  async handleDataDeletionCallback(
+    body: string | URLSearchParams | Record<string, unknown>,
+  ): Promise<AppCallback> {
+    return this.handleDeauthorizeCallback(body);
   }
 
   /**
@@ -299,94 +1349,101 @@ export class ThreadsAPI {
    * @param mediaType The type of media
    * @param mediaUrl Optional URL for image or video
    * @param text Optional text content
+   * @param options Optional reply, quote, link and visibility settings
+   * @param requestOptions Optional per-request settings, such as retry overrides
    * @returns The creation ID of the media container
+   * @throws ThreadsPostValidationError if the post breaks the documented limits
    */
-  async createMediaContainer({
-    userId,
-    mediaType,
-    mediaUrl,
-    text,
-  }: {
-    userId: string;
-    mediaType: MediaType;
-    mediaUrl?: string;
-    text?: string;
-  }): Promise<string> {
+  async createMediaContainer(
+    {
+      userId,
+      mediaType,
+      mediaUrl,
+      text,
+      options,
+    }: {
+      userId: string;
+      mediaType: MediaType;
+      mediaUrl?: string;
+      text?: string;
+      options?: PostOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<string> {
+    assertValid(validateMediaContainer({ mediaType, mediaUrl, text, options }));
     const url = `${this.baseUrl}${userId}/threads`;
     const params: Record<string, string> = {
       media_type: mediaType,
       ...(mediaType === "IMAGE" && mediaUrl && { image_url: mediaUrl }),
       ...(mediaType === "VIDEO" && mediaUrl && { video_url: mediaUrl }),
       ...(text && { text }),
+      ...postOptionsParams(options),
     };
 
-    try {
-      const response = await this.makeRequest<MediaContainer>({
-        url,
-        method: "POST",
-        params,
-      });
-      return response.id;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    const response = await this.makeRequest<MediaContainer>({
+      url,
+      method: "POST",
+      params,
+      requestOptions,
+    });
+    return response.id;
   }
 
   /**
    * Publish a media container
    * @param userId The user ID
    * @param creationId The creation ID of the media container
+   * @param requestOptions Optional per-request settings, such as retry overrides
    * @returns The ID of the published thread
    */
-  async publishMediaContainer({
-    userId,
-    creationId,
-  }: {
-    userId: string;
-    creationId: string;
-  }): Promise<string> {
+  async publishMediaContainer(
+    {
+      userId,
+      creationId,
+    }: {
+      userId: string;
+      creationId: string;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<string> {
     const url = `${this.baseUrl}${userId}/threads_publish`;
     const params = new URLSearchParams({
       creation_id: creationId,
     });
 
-    try {
-      const response = await this.makeRequest<MediaContainer>({
-        url,
-        method: "POST",
-        params,
-      });
-      return response.id;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    const response = await this.makeRequest<MediaContainer>({
+      url,
+      method: "POST",
+      params,
+      requestOptions,
+    });
+    return response.id;
   }
 
   /**
    * Checks the status of a media container
    * @param containerId The ID of the media container
+   * @param requestOptions Optional per-request settings, such as retry overrides
    * @returns The status of the media container
    * @note Recommended querying a container's status once per minute, for no more than 5 minutes.
    */
   async getMediaContainerStatus(
     containerId: string,
+    requestOptions?: RequestOptions,
   ): Promise<ContainerStatusResponse> {
     const url = `${this.baseUrl}${containerId}`;
     const params = new URLSearchParams({
       fields: "status,error_message",
     });
 
-    try {
-      const response = await this.makeRequest<ContainerStatusResponse>({
-        url,
-        method: "GET",
-        params,
-      });
+    const response = await this.makeRequest<ContainerStatusResponse>({
+      url,
+      method: "GET",
+      params,
+      requestOptions,
+    });
 
-      return response;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return response;
   }
 
   /**
@@ -394,157 +1451,1071 @@ export class ThreadsAPI {
    * @param userId The user ID
    * @param mediaType The type of media (IMAGE or VIDEO)
    * @param mediaUrl The URL of the media
+   * @param options Optional settings for the item, such as alt text
+   * @param requestOptions Optional per-request settings, such as retry overrides
    * @returns The creation ID of the carousel item container
+   * @throws ThreadsPostValidationError if the post breaks the documented limits
+   */
+  async createCarouselItemContainer(
+    {
+      userId,
+      mediaType,
+      mediaUrl,
+      options,
+    }: {
+      userId: string;
+      mediaType: "IMAGE" | "VIDEO";
+      mediaUrl: string;
+      options?: PostOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<string> {
+    assertValid(validateCarouselItem({ mediaType, mediaUrl }));
+    const url = `${this.baseUrl}${userId}/threads`;
+    const params: Record<string, string> = {
+      media_type: mediaType,
+      is_carousel_item: "true",
+      ...(mediaType === "IMAGE"
+        ? { image_url: mediaUrl }
+        : { video_url: mediaUrl }),
+      ...postOptionsParams(options),
+    };
+
+    const response = await this.makeRequest<MediaContainer>({
+      url,
+      method: "POST",
+      params,
+      requestOptions,
+    });
+    return response.id;
+  }
+
+  /**
+   * Create a carousel container
+   * @param userId The user ID
+   * @param children Array of creation IDs for carousel items
+   * @param text Optional text content
+   * @param options Optional reply, quote and visibility settings
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns The creation ID of the carousel container
+   * @throws ThreadsPostValidationError if the post breaks the documented limits
+   */
+  async createCarouselContainer(
+    {
+      userId,
+      children,
+      text,
+      options,
+    }: {
+      userId: string;
+      children: string[];
+      text?: string;
+      options?: PostOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<string> {
+    assertValid(
+      validateCarouselContainer({ itemCount: children.length, text, options }),
+    );
+    const url = `${this.baseUrl}${userId}/threads`;
+    const params: Record<string, string> = {
+      media_type: "CAROUSEL",
+      children: children.join(","),
+      ...(text && { text }),
+      ...postOptionsParams(options),
+    };
+
+    const response = await this.makeRequest<MediaContainer>({
+      url,
+      method: "POST",
+      params,
+      requestOptions,
+    });
+    return response.id;
+  }
+
+  /**
+   * Wait until a media container has finished processing
+   * @param containerId The ID of the media container
+   * @param options Optional poll interval, timeout and abort signal
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns The final status of the media container
+   * @throws ThreadsContainerError if the container ends in the ERROR or EXPIRED state
+   * @throws ThreadsContainerTimeoutError if the container is still processing after the timeout
+   */
+  async waitForContainer(
+    containerId: string,
+    options: WaitForContainerOptions = {},
+    requestOptions?: RequestOptions,
+  ): Promise<ContainerStatusResponse> {
+    const {
+      pollInterval = DEFAULT_POLL_INTERVAL,
+      timeout = DEFAULT_POLL_TIMEOUT,
+      signal,
+    } = options;
+    const deadline = Date.now() + timeout;
+
+    for (;;) {
+      if (signal?.aborted) {
+        throw abortReason(signal);
+      }
+      const response = await this.getMediaContainerStatus(
+        containerId,
+        requestOptions,
+      );
+      const { status } = response;
+      if (status === "FINISHED" || status === "PUBLISHED") {
+        return response;
+      }
+      if (status === "ERROR" || status === "EXPIRED") {
+        throw new ThreadsContainerError(
+          response.error_message ||
+            `Media container ${containerId} is in the ${status} state`,
+          containerId,
+          status,
+        );
+      }
+      if (Date.now() + pollInterval > deadline) {
+        throw new ThreadsContainerTimeoutError(
+          `Media container ${containerId} did not finish processing within ${timeout}ms`,
+          containerId,
+        );
+      }
+      await sleep(pollInterval, signal);
+    }
+  }
+
+  /**
+   * Retrieve how many posts and replies the user may still publish
+   * @param userId The user ID
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns The usage and size of the post and reply quotas
+   * @throws ThreadsAPIError if the response carries no quota
+   */
+  async getPublishingLimit(
+    userId: string,
+    requestOptions?: RequestOptions,
+  ): Promise<PublishingLimit> {
+    const url = `${this.baseUrl}${userId}/threads_publishing_limit`;
+    const params = new URLSearchParams({
+      fields: PUBLISHING_LIMIT_FIELDS.join(","),
+    });
+
+    const response = await this.makeRequest<{ data: PublishingLimit[] }>({
+      url,
+      method: "GET",
+      params,
+      requestOptions,
+    });
+    const [limit] = response.data ?? [];
+    if (!limit) {
+      throw new ThreadsAPIError(
+        `No publishing limit was returned for user ${userId}`,
+        { data: response },
+      );
+    }
+    return limit;
+  }
+
+  /**
+   * Create the media container for a post without publishing it. Carousel
+   * items are created and waited for first; the returned container itself may
+   * still be processing.
+   * @param userId The user ID
+   * @param post The content of the post, including reply, quote, link and visibility settings
+   * @param options Optional poll interval, timeout and abort signal used while waiting for carousel items, and whether to check the publishing quota
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns The creation ID of the media container
+   * @throws ThreadsPostValidationError if the post breaks the documented limits
+   * @throws ThreadsQuotaExceededError if the quota is checked and used up
+   */
+  async createPostContainer(
+    {
+      userId,
+      post,
+      options = {},
+    }: {
+      userId: string;
+      post: PostInput;
+      options?: WaitForContainerOptions & QuotaCheckOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<string> {
+    assertValid(validatePost(post));
+    if (options.checkQuota ?? this.config.checkPublishingQuota) {
+      await this.assertPublishingQuota(
+        {
+          userId,
+          posts: post.replyToId ? 0 : 1,
+          replies: post.replyToId ? 1 : 0,
+        },
+        requestOptions,
+      );
+    }
+    if (post.mediaType === "CAROUSEL") {
+      const children = await Promise.all(
+        post.items.map(async (item) => {
+          const childId = await this.createCarouselItemContainer(
+            {
+              userId,
+              mediaType: item.mediaType,
+              mediaUrl: item.mediaUrl,
+              options: { altText: item.altText },
+            },
+            requestOptions,
+          );
+          await this.waitForContainer(childId, options, requestOptions);
+          return childId;
+        }),
+      );
+      return this.createCarouselContainer(
+        { userId, children, text: post.text, options: post },
+        requestOptions,
+      );
+    }
+    return this.createMediaContainer(
+      {
+        userId,
+        mediaType: post.mediaType,
+        mediaUrl: post.mediaType === "TEXT" ? undefined : post.mediaUrl,
+        text: post.text,
+        options: post,
+      },
+      requestOptions,
+    );
+  }
+
+  /**
+   * Create, wait for and publish a post in one call
+   * @param userId The user ID
+   * @param post The content of the post, including reply, quote, link and visibility settings
+   * @param options Optional poll interval, timeout, abort signal, quota check and whether to fetch the permalink
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns The ID of the published post, and its permalink if requested
+   * @throws ThreadsPostValidationError if the post breaks the documented limits
+   * @throws ThreadsQuotaExceededError if the quota is checked and used up
+   */
+  async publishPost(
+    {
+      userId,
+      post,
+      options = {},
+    }: {
+      userId: string;
+      post: PostInput;
+      options?: PublishPostOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<PublishedPost> {
+    const creationId = await this.createPostContainer(
+      { userId, post, options },
+      requestOptions,
+    );
+    await this.waitForContainer(creationId, options, requestOptions);
+    const id = await this.publishMediaContainer(
+      { userId, creationId },
+      requestOptions,
+    );
+    if (!options.fetchPermalink) {
+      return { id };
+    }
+
+    const { permalink } = await this.getThreadsMediaObject(
+      { mediaId: id, fields: ["permalink"] },
+      requestOptions,
+    );
+    return { id, permalink };
+  }
+
+  /**
+   * Publish a chain of posts where each post replies to the previous one
+   * @param userId The user ID
+   * @param segments The posts of the chain, in order
+   * @param options Optional poll interval, timeout, abort signal, quota check and already published segments
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns The IDs of the published posts, in order
+   * @throws ThreadsChainError if a segment fails, listing the segments that were published
+   * @throws ThreadsPostValidationError if the post breaks the documented limits
+   * @throws ThreadsQuotaExceededError if the quota is checked and too small for the remaining segments
+   */
+  async publishThreadChain(
+    {
+      userId,
+      segments,
+      options = {},
+    }: {
+      userId: string;
+      segments: ThreadChainSegment[];
+      options?: PublishThreadChainOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<string[]> {
+    const publishedIds = [...(options.publishedIds ?? [])];
+    const violations: PostViolation[] = [];
+    segments.slice(publishedIds.length).forEach((segment, offset) => {
+      validatePost(segment).forEach((violation) =>
+        violations.push({
+          ...violation,
+          field: `segments[${publishedIds.length + offset}].${violation.field}`,
+        }),
+      );
+    });
+    assertValid(violations);
+
+    if (options.checkQuota ?? this.config.checkPublishingQuota) {
+      // Every segment but an unpublished first one replies to another post
+      const startsChain =
+        publishedIds.length === 0 &&
+        segments.length > 0 &&
+        !segments[0].replyToId;
+      await this.assertPublishingQuota(
+        {
+          userId,
+          posts: startsChain ? 1 : 0,
+          replies:
+            segments.length - publishedIds.length - (startsChain ? 1 : 0),
+        },
+        requestOptions,
+      );
+    }
+
+    for (let index = publishedIds.length; index < segments.length; index += 1) {
+      const segment = segments[index];
+      const container = {
+        userId,
+        mediaType: segment.mediaType,
+        mediaUrl: segment.mediaType === "TEXT" ? undefined : segment.mediaUrl,
+        text: segment.text,
+        options: segment,
+      };
+      const replyToId = publishedIds[index - 1];
+
+      try {
+        const creationId = replyToId
+          ? await this.respondToReply(
+              { ...container, replyToId },
+              requestOptions,
+            )
+          : await this.createMediaContainer(container, requestOptions);
+        await this.waitForContainer(creationId, options, requestOptions);
+        publishedIds.push(
+          await this.publishMediaContainer(
+            { userId, creationId },
+            requestOptions,
+          ),
+        );
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new ThreadsChainError(
+          `Failed to publish segment ${index + 1} of ${segments.length}: ${reason}`,
+          [...publishedIds],
+          index,
+          error,
+        );
+      }
+    }
+
+    return publishedIds;
+  }
+
+  /**
+   * Delete a post or reply
+   * @param mediaId The ID of the post or reply
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns Whether the media object was deleted
+   * @note Requires the `threads_delete` scope.
+   */
+  async deleteMedia(
+    mediaId: string,
+    requestOptions?: RequestOptions,
+  ): Promise<boolean> {
+    const url = `${this.baseUrl}${mediaId}`;
+
+    const response = await this.makeRequest<{
+      success: boolean;
+      deleted_id?: string;
+    }>({
+      url,
+      method: "DELETE",
+      params: {},
+      requestOptions,
+    });
+    return response.success;
+  }
+
+  /**
+   * Repost a post to the authenticated user's profile
+   * @param mediaId The ID of the post to repost
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns The ID of the repost, to pass to `unrepost`
+   */
+  async repost(
+    mediaId: string,
+    requestOptions?: RequestOptions,
+  ): Promise<string> {
+    const url = `${this.baseUrl}${mediaId}/repost`;
+
+    const response = await this.makeRequest<MediaContainer>({
+      url,
+      method: "POST",
+      params: {},
+      requestOptions,
+    });
+    return response.id;
+  }
+
+  /**
+   * Undo a repost
+   * @param repostId The ID returned by `repost`
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns Whether the repost was removed
+   */
+  async unrepost(
+    repostId: string,
+    requestOptions?: RequestOptions,
+  ): Promise<boolean> {
+    return this.deleteMedia(repostId, requestOptions);
+  }
+
+  /**
+   * Delete every post of a user that matches a filter
+   * @param userId The user ID
+   * @param filter Which posts to delete, by date range, text and media type
+   * @param dryRun List the matching posts without deleting them. Defaults to false.
+   * @param concurrency Maximum number of deletions in flight. Defaults to 3.
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns One result per matching post, newest first. Failed deletions carry their error instead of stopping the others.
+   */
+  async bulkDeleteThreads(
+    {
+      userId,
+      filter = {},
+      dryRun = false,
+      concurrency = DEFAULT_DELETE_CONCURRENCY,
+    }: {
+      userId: string;
+      filter?: DeleteThreadsFilter;
+      dryRun?: boolean;
+      concurrency?: number;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<BulkDeleteResult[]> {
+    // Collect every match first, since deleting while paginating shifts the cursors
+    const matches: BulkDeleteCandidate[] = [];
+    for await (const post of this.iterateUserThreads(
+      {
+        userId,
+        fields: BULK_DELETE_FIELDS,
+        options: { since: filter.since, until: filter.until },
+      },
+      requestOptions,
+    )) {
+      if (matchesDeleteFilter(post, filter)) {
+        matches.push(post);
+      }
+    }
+
+    if (dryRun) {
+      return matches.map((post) => ({ post, deleted: false, dryRun }));
+    }
+    const outcomes = await mapSettled(matches, concurrency, (post) =>
+      this.deleteMedia(post.id, requestOptions),
+    );
+    return outcomes.map((outcome, index) => ({
+      post: matches[index],
+      deleted: outcome.ok && outcome.value,
+      dryRun,
+      ...(!outcome.ok && { error: outcome.error }),
+    }));
+  }
+
+  /**
+   * Retrieve user's threads
+   * @param userId The user ID
+   * @param fields Array of fields to retrieve
+   * @param options Optional parameters for pagination and date range
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns Array of user's threads
+   */
+  async getUserThreads<F extends MediaFields>(
+    {
+      userId,
+      fields,
+      options,
+    }: {
+      userId: string;
+      fields: readonly F[];
+      options?: UserThreadsOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<ThreadsMediaObject<F>[]> {
+    const page = await this.getUserThreadsPage(
+      { userId, fields, options },
+      requestOptions,
+    );
+    return page.data;
+  }
+
+  /**
+   * Retrieve a single page of user's threads, including paging cursors
+   * @param userId The user ID
+   * @param fields Array of fields to retrieve
+   * @param options Optional parameters for pagination and date range
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns The page of user's threads
+   */
+  async getUserThreadsPage<F extends MediaFields>(
+    {
+      userId,
+      fields,
+      options,
+    }: {
+      userId: string;
+      fields: readonly F[];
+      options?: UserThreadsOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<Page<ThreadsMediaObject<F>>> {
+    const url = `${this.baseUrl}${userId}/threads`;
+    const params: Record<string, string> = {
+      fields: fields.join(","),
+      ...paginationParams(options),
+      ...(options?.since && { since: options.since }),
+      ...(options?.until && { until: options.until }),
+    };
+
+    return await this.makeRequest<Page<ThreadsMediaObject<F>>>({
+      url,
+      method: "GET",
+      params,
+      requestOptions,
+    });
+  }
+
+  /**
+   * Iterate over all of a user's threads, fetching pages as needed
+   * @param userId The user ID
+   * @param fields Array of fields to retrieve
+   * @param options Optional parameters for page size, starting cursor and date range
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns An async iterator of user's threads
+   */
+  iterateUserThreads<F extends MediaFields>(
+    {
+      userId,
+      fields,
+      options,
+    }: {
+      userId: string;
+      fields: readonly F[];
+      options?: UserThreadsOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): AsyncGenerator<ThreadsMediaObject<F>> {
+    return this.paginate(
+      (after) =>
+        this.getUserThreadsPage(
+          {
+            userId,
+            fields,
+            options: { ...options, before: undefined, after },
+          },
+          requestOptions,
+        ),
+      options?.after,
+    );
+  }
+
+  /**
+   * Search public posts by keyword or topic tag
+   * @param query The keyword or topic tag to search for
+   * @param fields Array of fields to retrieve
+   * @param options Optional search type, search mode, media type, date range and pagination
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns Array of matching posts
+   * @note Requires the `threads_keyword_search` scope. Without advanced access, only posts of the authenticated user are returned.
+   */
+  async searchKeyword<F extends MediaFields>(
+    {
+      query,
+      fields,
+      options,
+    }: {
+      query: string;
+      fields: readonly F[];
+      options?: KeywordSearchOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<ThreadsMediaObject<F>[]> {
+    const page = await this.searchKeywordPage(
+      { query, fields, options },
+      requestOptions,
+    );
+    return page.data;
+  }
+
+  /**
+   * Retrieve a single page of keyword search results, including paging cursors
+   * @param query The keyword or topic tag to search for
+   * @param fields Array of fields to retrieve
+   * @param options Optional search type, search mode, media type, date range and pagination
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns The page of matching posts
    */
-  async createCarouselItemContainer({
-    userId,
-    mediaType,
-    mediaUrl,
-  }: {
-    userId: string;
-    mediaType: "IMAGE" | "VIDEO";
-    mediaUrl: string;
-  }): Promise<string> {
-    const url = `${this.baseUrl}${userId}/threads`;
+  async searchKeywordPage<F extends MediaFields>(
+    {
+      query,
+      fields,
+      options,
+    }: {
+      query: string;
+      fields: readonly F[];
+      options?: KeywordSearchOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<Page<ThreadsMediaObject<F>>> {
+    const url = `${this.baseUrl}keyword_search`;
     const params: Record<string, string> = {
-      media_type: mediaType,
-      is_carousel_item: "true",
-      ...(mediaType === "IMAGE"
-        ? { image_url: mediaUrl }
-        : { video_url: mediaUrl }),
+      q: query,
+      fields: fields.join(","),
+      ...paginationParams(options),
+      ...(options?.searchType && { search_type: options.searchType }),
+      ...(options?.searchMode && { search_mode: options.searchMode }),
+      ...(options?.mediaType && { media_type: options.mediaType }),
+      ...(options?.since && { since: options.since }),
+      ...(options?.until && { until: options.until }),
     };
 
-    try {
-      const response = await this.makeRequest<MediaContainer>({
-        url,
-        method: "POST",
-        params,
-      });
-      return response.id;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return await this.makeRequest<Page<ThreadsMediaObject<F>>>({
+      url,
+      method: "GET",
+      params,
+      requestOptions,
+    });
   }
 
   /**
-   * Create a carousel container
-   * @param userId The user ID
-   * @param children Array of creation IDs for carousel items
-   * @param text Optional text content
-   * @returns The creation ID of the carousel container
+   * Iterate over all keyword search results, fetching pages as needed
+   * @param query The keyword or topic tag to search for
+   * @param fields Array of fields to retrieve
+   * @param options Optional search type, search mode, media type, date range, page size and starting cursor
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns An async iterator of matching posts
    */
-  async createCarouselContainer({
-    userId,
-    children,
-    text,
-  }: {
-    userId: string;
-    children: string[];
-    text?: string;
-  }): Promise<string> {
-    const url = `${this.baseUrl}${userId}/threads`;
-    const params: Record<string, string> = {
-      media_type: "CAROUSEL",
-      children: children.join(","),
-      ...(text && { text }),
-    };
+  iterateKeywordSearch<F extends MediaFields>(
+    {
+      query,
+      fields,
+      options,
+    }: {
+      query: string;
+      fields: readonly F[];
+      options?: KeywordSearchOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): AsyncGenerator<ThreadsMediaObject<F>> {
+    return this.paginate(
+      (after) =>
+        this.searchKeywordPage(
+          {
+            query,
+            fields,
+            options: { ...options, before: undefined, after },
+          },
+          requestOptions,
+        ),
+      options?.after,
+    );
+  }
 
-    try {
-      const response = await this.makeRequest<MediaContainer>({
-        url,
-        method: "POST",
-        params,
-      });
-      return response.id;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+  /**
+   * Retrieve posts and replies that mention a user
+   * @param userId The user ID
+   * @param fields Array of fields to retrieve
+   * @param options Optional parameters for pagination and date range
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns Array of posts mentioning the user
+   * @note Requires the `threads_manage_mentions` scope. Answer a mention with `respondToReply`.
+   */
+  async getMentions<F extends MediaFields>(
+    {
+      userId,
+      fields,
+      options,
+    }: {
+      userId: string;
+      fields: readonly F[];
+      options?: UserThreadsOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<ThreadsMediaObject<F>[]> {
+    const page = await this.getMentionsPage(
+      { userId, fields, options },
+      requestOptions,
+    );
+    return page.data;
   }
 
   /**
-   * Retrieve user's threads
+   * Retrieve a single page of posts mentioning a user, including paging cursors
    * @param userId The user ID
    * @param fields Array of fields to retrieve
    * @param options Optional parameters for pagination and date range
-   * @returns Array of user's threads
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns The page of posts mentioning the user
    */
-  async getUserThreads({
-    userId,
-    fields,
-    options,
-  }: {
-    userId: string;
-    fields: string[];
-    options?: { since?: string; until?: string; limit?: number };
-  }): Promise<any[]> {
-    const url = `${this.baseUrl}${userId}/threads`;
+  async getMentionsPage<F extends MediaFields>(
+    {
+      userId,
+      fields,
+      options,
+    }: {
+      userId: string;
+      fields: readonly F[];
+      options?: UserThreadsOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<Page<ThreadsMediaObject<F>>> {
+    const url = `${this.baseUrl}${userId}/mentions`;
     const params: Record<string, string> = {
       fields: fields.join(","),
-      ...(options?.limit && { limit: options.limit.toString() }),
+      ...paginationParams(options),
       ...(options?.since && { since: options.since }),
       ...(options?.until && { until: options.until }),
     };
 
-    try {
-      const response = await this.makeRequest<{ data: any[] }>({
-        url,
-        method: "GET",
-        params,
-      });
-      return response.data;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return await this.makeRequest<Page<ThreadsMediaObject<F>>>({
+      url,
+      method: "GET",
+      params,
+      requestOptions,
+    });
+  }
+
+  /**
+   * Iterate over all posts mentioning a user, fetching pages as needed
+   * @param userId The user ID
+   * @param fields Array of fields to retrieve
+   * @param options Optional parameters for page size, starting cursor and date range
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns An async iterator of posts mentioning the user
+   */
+  iterateMentions<F extends MediaFields>(
+    {
+      userId,
+      fields,
+      options,
+    }: {
+      userId: string;
+      fields: readonly F[];
+      options?: UserThreadsOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): AsyncGenerator<ThreadsMediaObject<F>> {
+    return this.paginate(
+      (after) =>
+        this.getMentionsPage(
+          {
+            userId,
+            fields,
+            options: { ...options, before: undefined, after },
+          },
+          requestOptions,
+        ),
+      options?.after,
+    );
   }
 
   /**
    * Retrieve a single threads media object
    * @param mediaId The ID of the media object
    * @param fields Array of fields to retrieve
+   * @param requestOptions Optional per-request settings, such as retry overrides
    * @returns The threads media object
    */
-  async getThreadsMediaObject({
-    mediaId,
-    fields,
-  }: {
-    mediaId: string;
-    fields: string[];
-  }): Promise<any> {
+  async getThreadsMediaObject<F extends MediaFields>(
+    {
+      mediaId,
+      fields,
+    }: {
+      mediaId: string;
+      fields: readonly F[];
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<ThreadsMediaObject<F>> {
     const url = `${this.baseUrl}${mediaId}`;
     const params = {
       fields: fields.join(","),
     };
 
-    try {
-      return await this.makeRequest({ url, method: "GET", params });
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return await this.makeRequest<ThreadsMediaObject<F>>({
+      url,
+      method: "GET",
+      params,
+      requestOptions,
+    });
   }
 
   /**
    * Retrieve a user's profile
    * @param userId The user ID
    * @param fields Array of fields to retrieve
+   * @param requestOptions Optional per-request settings, such as retry overrides
    * @returns The user's profile
+   * @note Only works for the authenticated user. Use `lookupProfile` for other profiles.
    */
-  async getUserProfile({
-    userId,
-    fields,
-  }: {
-    userId: string;
-    fields: ProfileFields[];
-  }): Promise<any> {
+  async getUserProfile<F extends ProfileFields>(
+    {
+      userId,
+      fields,
+    }: {
+      userId: string;
+      fields: readonly F[];
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<ThreadsUserProfile<F>> {
     const url = `${this.baseUrl}${userId}`;
     const params = {
       fields: fields.join(","),
     };
 
-    try {
-      return await this.makeRequest({ url, method: "GET", params });
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return await this.makeRequest<ThreadsUserProfile<F>>({
+      url,
+      method: "GET",
+      params,
+      requestOptions,
+    });
+  }
+
+  /**
+   * Look up a public profile by username
+   * @param username The username, with or without a leading `@`
+   * @param fields Array of fields to retrieve. Defaults to PUBLIC_PROFILE_FIELDS.
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns The profile
+   * @throws ThreadsNotFoundError if no public profile has this username
+   * @note Requires the `threads_profile_discovery` scope.
+   */
+  async lookupProfile<F extends PublicProfileFields>(
+    {
+      username,
+      fields,
+    }: {
+      username: string;
+      fields?: readonly F[];
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<PublicProfileObject<F>> {
+    const url = `${this.baseUrl}profile_lookup`;
+    const params = {
+      username: normalizeUsername(username),
+      fields: (fields ?? PUBLIC_PROFILE_FIELDS).join(","),
+    };
+
+    return await this.makeRequest<PublicProfileObject<F>>({
+      url,
+      method: "GET",
+      params,
+      requestOptions,
+    });
+  }
+
+  /**
+   * Retrieve the public posts of a profile
+   * @param username The username, with or without a leading `@`
+   * @param fields Array of fields to retrieve
+   * @param options Optional parameters for pagination and date range
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns Array of the profile's posts
+   * @note Requires the `threads_profile_discovery` scope.
+   */
+  async getProfilePosts<F extends MediaFields>(
+    {
+      username,
+      fields,
+      options,
+    }: {
+      username: string;
+      fields: readonly F[];
+      options?: UserThreadsOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<ThreadsMediaObject<F>[]> {
+    const page = await this.getProfilePostsPage(
+      { username, fields, options },
+      requestOptions,
+    );
+    return page.data;
+  }
+
+  /**
+   * Retrieve a single page of a profile's public posts, including paging cursors
+   * @param username The username, with or without a leading `@`
+   * @param fields Array of fields to retrieve
+   * @param options Optional parameters for pagination and date range
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns The page of the profile's posts
+   */
+  async getProfilePostsPage<F extends MediaFields>(
+    {
+      username,
+      fields,
+      options,
+    }: {
+      username: string;
+      fields: readonly F[];
+      options?: UserThreadsOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<Page<ThreadsMediaObject<F>>> {
+    const url = `${this.baseUrl}profile_posts`;
+    const params: Record<string, string> = {
+      username: normalizeUsername(username),
+      fields: fields.join(","),
+      ...paginationParams(options),
+      ...(options?.since && { since: options.since }),
+      ...(options?.until && { until: options.until }),
+    };
+
+    return await this.makeRequest<Page<ThreadsMediaObject<F>>>({
+      url,
+      method: "GET",
+      params,
+      requestOptions,
+    });
+  }
+
+  /**
+   * Iterate over all of a profile's public posts, fetching pages as needed
+   * @param username The username, with or without a leading `@`
+   * @param fields Array of fields to retrieve
+   * @param options Optional parameters for page size, starting cursor and date range
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns An async iterator of the profile's posts
+   */
+  iterateProfilePosts<F extends MediaFields>(
+    {
+      username,
+      fields,
+      options,
+    }: {
+      username: string;
+      fields: readonly F[];
+      options?: UserThreadsOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): AsyncGenerator<ThreadsMediaObject<F>> {
+    return this.paginate(
+      (after) =>
+        this.getProfilePostsPage(
+          {
+            username,
+            fields,
+            options: { ...options, before: undefined, after },
+          },
+          requestOptions,
+        ),
+      options?.after,
+    );
+  }
+
+  /**
+   * Retrieve the public replies of a profile
+   * @param username The username, with or without a leading `@`
+   * @param fields Array of fields to retrieve
+   * @param options Optional parameters for pagination and date range
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns Array of the profile's replies
+   * @note Requires the `threads_profile_discovery` scope.
+   */
+  async getProfileReplies<F extends MediaFields>(
+    {
+      username,
+      fields,
+      options,
+    }: {
+      username: string;
+      fields: readonly F[];
+      options?: UserThreadsOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<ThreadsMediaObject<F>[]> {
+    const page = await this.getProfileRepliesPage(
+      { username, fields, options },
+      requestOptions,
+    );
+    return page.data;
+  }
+
+  /**
+   * Retrieve a single page of a profile's public replies, including paging cursors
+   * @param username The username, with or without a leading `@`
+   * @param fields Array of fields to retrieve
+   * @param options Optional parameters for pagination and date range
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns The page of the profile's replies
+   */
+  async getProfileRepliesPage<F extends MediaFields>(
+    {
+      username,
+      fields,
+      options,
+    }: {
+      username: string;
+      fields: readonly F[];
+      options?: UserThreadsOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<Page<ThreadsMediaObject<F>>> {
+    const url = `${this.baseUrl}profile_replies`;
+    const params: Record<string, string> = {
+      username: normalizeUsername(username),
+      fields: fields.join(","),
+      ...paginationParams(options),
+      ...(options?.since && { since: options.since }),
+      ...(options?.until && { until: options.until }),
+    };
+
+    return await this.makeRequest<Page<ThreadsMediaObject<F>>>({
+      url,
+      method: "GET",
+      params,
+      requestOptions,
+    });
+  }
+
+  /**
+   * Iterate over all of a profile's public replies, fetching pages as needed
+   * @param username The username, with or without a leading `@`
+   * @param fields Array of fields to retrieve
+   * @param options Optional parameters for page size, starting cursor and date range
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns An async iterator of the profile's replies
+   */
+  iterateProfileReplies<F extends MediaFields>(
+    {
+      username,
+      fields,
+      options,
+    }: {
+      username: string;
+      fields: readonly F[];
+      options?: UserThreadsOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): AsyncGenerator<ThreadsMediaObject<F>> {
+    return this.paginate(
+      (after) =>
+        this.getProfileRepliesPage(
+          {
+            username,
+            fields,
+            options: { ...options, before: undefined, after },
+          },
+          requestOptions,
+        ),
+      options?.after,
+    );
   }
 
   /**
@@ -552,33 +2523,110 @@ export class ThreadsAPI {
    * @param mediaId The ID of the thread
    * @param fields Array of fields to retrieve
    * @param reverse Whether to reverse the order of replies
+   * @param options Optional parameters for pagination
+   * @param requestOptions Optional per-request settings, such as retry overrides
    * @returns Array of replies
    */
-  async getReplies({
-    mediaId,
-    fields,
-    reverse = true,
-  }: {
-    mediaId: string;
-    fields: RetrieveRepliesFields[];
-    reverse?: boolean;
-  }): Promise<any[]> {
+  async getReplies<F extends RetrieveRepliesFields>(
+    {
+      mediaId,
+      fields,
+      reverse = true,
+      options,
+    }: {
+      mediaId: string;
+      fields: readonly F[];
+      reverse?: boolean;
+      options?: PaginationOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<ThreadsMediaObject<F>[]> {
+    const page = await this.getRepliesPage(
+      {
+        mediaId,
+        fields,
+        reverse,
+        options,
+      },
+      requestOptions,
+    );
+    return page.data;
+  }
+
+  /**
+   * Retrieve a single page of replies to a thread, including paging cursors
+   * @param mediaId The ID of the thread
+   * @param fields Array of fields to retrieve
+   * @param reverse Whether to reverse the order of replies
+   * @param options Optional parameters for pagination
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns The page of replies
+   */
+  async getRepliesPage<F extends RetrieveRepliesFields>(
+    {
+      mediaId,
+      fields,
+      reverse = true,
+      options,
+    }: {
+      mediaId: string;
+      fields: readonly F[];
+      reverse?: boolean;
+      options?: PaginationOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<Page<ThreadsMediaObject<F>>> {
     const url = `${this.baseUrl}${mediaId}/replies`;
     const params = {
       fields: fields.join(","),
       reverse: reverse.toString(),
+      ...paginationParams(options),
     };
 
-    try {
-      const response = await this.makeRequest<{ data: any[] }>({
-        url,
-        method: "GET",
-        params,
-      });
-      return response.data;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return await this.makeRequest<Page<ThreadsMediaObject<F>>>({
+      url,
+      method: "GET",
+      params,
+      requestOptions,
+    });
+  }
+
+  /**
+   * Iterate over all replies to a thread, fetching pages as needed
+   * @param mediaId The ID of the thread
+   * @param fields Array of fields to retrieve
+   * @param reverse Whether to reverse the order of replies
+   * @param options Optional parameters for page size and starting cursor
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns An async iterator of replies
+   */
+  iterateReplies<F extends RetrieveRepliesFields>(
+    {
+      mediaId,
+      fields,
+      reverse = true,
+      options,
+    }: {
+      mediaId: string;
+      fields: readonly F[];
+      reverse?: boolean;
+      options?: PaginationOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): AsyncGenerator<ThreadsMediaObject<F>> {
+    return this.paginate(
+      (after) =>
+        this.getRepliesPage(
+          {
+            mediaId,
+            fields,
+            reverse,
+            options: { ...options, before: undefined, after },
+          },
+          requestOptions,
+        ),
+      options?.after,
+    );
   }
 
   /**
@@ -586,256 +2634,674 @@ export class ThreadsAPI {
    * @param mediaId The ID of the thread
    * @param fields Array of fields to retrieve
    * @param reverse Whether to reverse the order of conversation
+   * @param options Optional parameters for pagination
+   * @param requestOptions Optional per-request settings, such as retry overrides
    * @returns Array of conversation items
    */
-  async getConversation({
-    mediaId,
-    fields,
-    reverse = true,
-  }: {
-    mediaId: string;
-    fields: string[];
-    reverse?: boolean;
-  }): Promise<any[]> {
+  async getConversation<F extends MediaFields>(
+    {
+      mediaId,
+      fields,
+      reverse = true,
+      options,
+    }: {
+      mediaId: string;
+      fields: readonly F[];
+      reverse?: boolean;
+      options?: PaginationOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<ThreadsMediaObject<F>[]> {
+    const page = await this.getConversationPage(
+      {
+        mediaId,
+        fields,
+        reverse,
+        options,
+      },
+      requestOptions,
+    );
+    return page.data;
+  }
+
+  /**
+   * Retrieve a single page of a conversation thread, including paging cursors
+   * @param mediaId The ID of the thread
+   * @param fields Array of fields to retrieve
+   * @param reverse Whether to reverse the order of conversation
+   * @param options Optional parameters for pagination
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns The page of conversation items
+   */
+  async getConversationPage<F extends MediaFields>(
+    {
+      mediaId,
+      fields,
+      reverse = true,
+      options,
+    }: {
+      mediaId: string;
+      fields: readonly F[];
+      reverse?: boolean;
+      options?: PaginationOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<Page<ThreadsMediaObject<F>>> {
     const url = `${this.baseUrl}${mediaId}/conversation`;
     const params = {
       fields: fields.join(","),
       reverse: reverse.toString(),
+      ...paginationParams(options),
     };
 
-    try {
-      const response = await this.makeRequest<{ data: any[] }>({
-        url,
-        method: "GET",
-        params,
-      });
-      return response.data;
-    } catch (error) {
-      throw this.handleError(error);
+    return await this.makeRequest<Page<ThreadsMediaObject<F>>>({
+      url,
+      method: "GET",
+      params,
+      requestOptions,
+    });
+  }
+
+  /**
+   * Iterate over a whole conversation thread, fetching pages as needed
+   * @param mediaId The ID of the thread
+   * @param fields Array of fields to retrieve
+   * @param reverse Whether to reverse the order of conversation
+   * @param options Optional parameters for page size and starting cursor
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns An async iterator of conversation items
+   */
+  iterateConversation<F extends MediaFields>(
+    {
+      mediaId,
+      fields,
+      reverse = true,
+      options,
+    }: {
+      mediaId: string;
+      fields: readonly F[];
+      reverse?: boolean;
+      options?: PaginationOptions;
+    },
+    requestOptions?: RequestOptions,
+  ): AsyncGenerator<ThreadsMediaObject<F>> {
+    return this.paginate(
+      (after) =>
+        this.getConversationPage(
+          {
+            mediaId,
+            fields,
+            reverse,
+            options: { ...options, before: undefined, after },
+          },
+          requestOptions,
+        ),
+      options?.after,
+    );
+  }
+
+  /**
+   * Fetch a thread's whole conversation and nest every reply under the reply it answers
+   * @param mediaId The ID of the thread
+   * @param fields Array of fields to retrieve; `replied_to` and `timestamp` are always added
+   * @param reverse Whether to order replies newest first. Defaults to true.
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns The conversation tree
+   */
+  async getConversationTree<F extends MediaFields>(
+    {
+      mediaId,
+      fields,
+      reverse = true,
+    }: {
+      mediaId: string;
+      fields: readonly F[];
+      reverse?: boolean;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<ConversationTree<F>> {
+    const replies: ConversationReply<F>[] = [];
+    for await (const reply of this.iterateConversation(
+      {
+        mediaId,
+        fields: Array.from(new Set([...fields, ...CONVERSATION_TREE_FIELDS])),
+        reverse,
+      },
+      requestOptions,
+    )) {
+      replies.push(reply);
     }
+    return buildConversationTree(mediaId, replies, { reverse });
   }
 
   /**
    * Hide or unhide a reply
    * @param replyId The ID of the reply
    * @param hide Whether to hide (true) or unhide (false) the reply
+   * @param requestOptions Optional per-request settings, such as retry overrides
    * @returns Whether the operation was successful
    */
-  async hideReply({
-    replyId,
-    hide,
-  }: {
-    replyId: string;
-    hide: boolean;
-  }): Promise<boolean> {
+  async hideReply(
+    {
+      replyId,
+      hide,
+    }: {
+      replyId: string;
+      hide: boolean;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<boolean> {
     const url = `${this.baseUrl}${replyId}/manage_reply`;
     const params = new URLSearchParams({
       hide: hide.toString(),
     });
 
-    try {
-      const response = await this.makeRequest<{ success: boolean }>({
-        url,
-        method: "POST",
-        params,
-      });
-      return response.success;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    const response = await this.makeRequest<{ success: boolean }>({
+      url,
+      method: "POST",
+      params,
+      idempotent: true,
+      requestOptions,
+    });
+    return response.success;
   }
 
   /**
    * Respond to a reply
    * @param userId The user ID
    * @param mediaType The type of media for the response
+   * @param mediaUrl Optional URL for image or video
    * @param text The text content of the response
    * @param replyToId The ID of the thread to reply to
-   * @returns The ID of the created reply
+   * @param options Optional reply control, quote, link and visibility settings
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns The creation ID of the reply container
    */
-  async respondToReply({
-    userId,
-    mediaType,
-    text,
-    replyToId,
-  }: {
-    userId: string;
-    mediaType: MediaType;
-    text: string;
-    replyToId: string;
-  }): Promise<string> {
-    const url = `${this.baseUrl}${userId}/threads`;
-    const params = {
-      media_type: mediaType,
+  async respondToReply(
+    {
+      userId,
+      mediaType,
+      mediaUrl,
       text,
-      reply_to_id: replyToId,
-    };
-
-    try {
-      const response = await this.makeRequest<MediaContainer>({
-        url,
-        method: "POST",
-        params,
-      });
-      return response.id;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+      replyToId,
+      options,
+    }: {
+      userId: string;
+      mediaType: MediaType;
+      mediaUrl?: string;
+      text?: string;
+      replyToId: string;
+      options?: Omit<PostOptions, "replyToId">;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<string> {
+    return this.createMediaContainer(
+      {
+        userId,
+        mediaType,
+        mediaUrl,
+        text,
+        options: { ...options, replyToId },
+      },
+      requestOptions,
+    );
   }
 
   /**
    * Control who can reply to a thread
    * @param userId The user ID
    * @param mediaType The type of media for the thread
+   * @param mediaUrl Optional URL for image or video
    * @param text The text content of the thread
    * @param replyControl The reply control setting
-   * @returns The ID of the created thread
+   * @param options Optional reply, quote, link and visibility settings
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns The creation ID of the thread container
    */
-  async controlWhoCanReply({
-    userId,
-    mediaType,
-    text,
-    replyControl,
-  }: {
-    userId: string;
-    mediaType: MediaType;
-    text: string;
-    replyControl: ReplyControl;
-  }): Promise<string> {
-    const url = `${this.baseUrl}${userId}/threads`;
-    const params = {
-      media_type: mediaType,
+  async controlWhoCanReply(
+    {
+      userId,
+      mediaType,
+      mediaUrl,
       text,
-      reply_control: replyControl,
-    };
-
-    try {
-      const response = await this.makeRequest<MediaContainer>({
-        url,
-        method: "POST",
-        params,
-      });
-      return response.id;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+      replyControl,
+      options,
+    }: {
+      userId: string;
+      mediaType: MediaType;
+      mediaUrl?: string;
+      text?: string;
+      replyControl: ReplyControl;
+      options?: Omit<PostOptions, "replyControl">;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<string> {
+    return this.createMediaContainer(
+      {
+        userId,
+        mediaType,
+        mediaUrl,
+        text,
+        options: { ...options, replyControl },
+      },
+      requestOptions,
+    );
   }
 
   /**
    * Retrieve media insights
    * @param mediaId The ID of the media
    * @param metrics Array of metrics to retrieve
+   * @param requestOptions Optional per-request settings, such as retry overrides
    * @returns The media insights
    */
-  async getMediaInsights({
-    mediaId,
-    metrics,
-  }: {
-    mediaId: string;
-    metrics: string[];
-  }): Promise<ThreadsMediaInsightsResponse> {
+  async getMediaInsights(
+    {
+      mediaId,
+      metrics,
+    }: {
+      mediaId: string;
+      metrics: readonly MediaMetricName[];
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<MediaMetric[]> {
     const url = `${this.baseUrl}${mediaId}/insights`;
     const params = {
       metric: metrics.join(","),
     };
 
-    try {
-      const response = await this.makeRequest<{
-        data: ThreadsMediaInsightsResponse;
-      }>({
-        url,
-        method: "GET",
-        params,
-      });
-      return response.data;
-    } catch (error) {
-      throw this.handleError(error);
+    const response = await this.makeRequest<ThreadsMediaInsightsResponse>({
+      url,
+      method: "GET",
+      params,
+      requestOptions,
+    });
+    return response.data;
+  }
+
+  /**
+   * Retrieve media insights for many posts, either given by ID or found by
+   * walking the user's threads published in a date range.
+   * Posts are fetched in Graph batches of up to MAX_BATCH_SIZE. A failing post
+   * does not stop the others; its error is collected instead.
+   * @param mediaIds The IDs of the media
+   * @param userId The user whose threads to walk when no media IDs are given
+   * @param since Optional start of the date range when walking threads
+   * @param until Optional end of the date range when walking threads
+   * @param metrics Array of metrics to retrieve
+   * @param concurrency Maximum number of batch requests in flight. Defaults to 5.
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns The insights and errors, keyed by media ID
+   * @throws ThreadsValidationError if neither media IDs nor a user ID is given
+   */
+  async getBulkMediaInsights(
+    {
+      mediaIds,
+      userId,
+      since,
+      until,
+      metrics,
+      concurrency = DEFAULT_INSIGHTS_CONCURRENCY,
+    }: {
+      mediaIds?: readonly string[];
+      userId?: string;
+      since?: string;
+      until?: string;
+      metrics: readonly MediaMetricName[];
+      concurrency?: number;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<BulkMediaInsightsResult> {
+    let ids = mediaIds;
+    if (!ids) {
+      if (!userId) {
+        throw new ThreadsValidationError(
+          "Either mediaIds or userId is required",
+        );
+      }
+      const found: string[] = [];
+      for await (const thread of this.iterateUserThreads(
+        { userId, fields: ["id"], options: { since, until } },
+        requestOptions,
+      )) {
+        found.push(thread.id);
+      }
+      ids = found;
+    }
+
+    const unique = Array.from(new Set(ids));
+    const chunks: string[][] = [];
+    for (let start = 0; start < unique.length; start += MAX_BATCH_SIZE) {
+      chunks.push(unique.slice(start, start + MAX_BATCH_SIZE));
     }
+
+    const result: BulkMediaInsightsResult = {
+      insights: new Map(),
+      errors: new Map(),
+    };
+    await mapSettled(chunks, concurrency, async (chunk) => {
+      const batch = this.batch(requestOptions);
+      const operations = chunk.map((mediaId) =>
+        batch.add((api) =>
+          api.getMediaInsights({ mediaId, metrics }, requestOptions),
+        ),
+      );
+      await batch.execute();
+      await Promise.all(
+        operations.map((operation, index) =>
+          operation.result.then(
+            (insights) => {
+              result.insights.set(chunk[index], insights);
+            },
+            (error: unknown) => {
+              result.errors.set(
+                chunk[index],
+                error instanceof Error ? error : new Error(String(error)),
+              );
+            },
+          ),
+        ),
+      );
+    });
+    return result;
   }
 
   /**
-   * Retrieve user insights
+   * Retrieve user insights.
+   * Ranges longer than the API allows are split into several requests whose
+   * results are merged into a single time series per metric.
    * @param userId The user ID
-   * @param metrics Array of metrics to retrieve
-   * @param options Optional parameters for date range
+   * @param metric The metric or metrics to retrieve
+   * @param options Optional parameters for date range and demographic breakdown
+   * @param requestOptions Optional per-request settings, such as retry overrides
    * @returns The user insights
    */
-  async getUserInsights({
-    userId,
-    metric,
-    options,
-  }: {
-    userId: string;
-  } & ThreadsUserInsightsParams): Promise<ThreadsUserInsightsResponse> {
+  async getUserInsights(
+    {
+      userId,
+      metric,
+      options,
+    }: {
+      userId: string;
+    } & ThreadsUserInsightsParams,
+    requestOptions?: RequestOptions,
+  ): Promise<UserMetric[]> {
+    const metrics = Array.isArray(metric) ? metric : [metric];
+    const rangeMetrics = metrics.filter(
+      (name) => !UNRANGED_USER_METRICS.includes(name),
+    );
+    const unrangedMetrics = metrics.filter((name) =>
+      UNRANGED_USER_METRICS.includes(name),
+    );
+
+    const requests: Promise<UserMetric[]>[] = [];
+    if (rangeMetrics.length > 0) {
+      const windows =
+        options?.since !== undefined || options?.until !== undefined
+          ? splitTimeRange(options.since, options.until)
+          : [{}];
+      for (const window of windows) {
+        requests.push(
+          this.fetchUserInsights(
+            userId,
+            { metric: rangeMetrics.join(","), ...window },
+            requestOptions,
+          ),
+        );
+      }
+    }
+    if (unrangedMetrics.length > 0) {
+      requests.push(
+        this.fetchUserInsights(
+          userId,
+          {
+            metric: unrangedMetrics.join(","),
+            ...(options?.breakdown && { breakdown: options.breakdown }),
+          },
+          requestOptions,
+        ),
+      );
+    }
+
+    return mergeUserMetrics(await Promise.all(requests));
+  }
+
+  /**
+   * Exchange an authorization code without touching the client's token
+   * @param code The authorization code
+   * @param requestOptions Optional per-request settings
+   * @returns The short-lived access token and user ID
+   */
+  private async exchangeAuthorizationCode(
+    code: string,
+    requestOptions?: RequestOptions,
+  ): Promise<TokenResponse> {
+    const url = `${this.baseUrl}oauth/access_token`;
+    const params = new URLSearchParams({
+      client_id: this.config.clientId,
+      client_secret: this.config.clientSecret,
+      grant_type: "authorization_code",
+      redirect_uri: this.config.redirectUri,
+      code: normalizeAuthorizationCode(code),
+    });
+
+    return this.makeRequest<TokenResponse>({
+      url,
+      method: "POST",
+      params,
+      authenticate: false,
+      requestOptions,
+    });
+  }
+
+  /**
+   * Make a single user insights request
+   * @param userId The user ID
+   * @param metric Comma-separated metric names
+   * @param since Optional start of the range as a Unix timestamp
+   * @param until Optional end of the range as a Unix timestamp
+   * @param breakdown Optional demographic breakdown
+   * @param requestOptions Optional per-request settings
+   * @returns The user insights
+   */
+  private async fetchUserInsights(
+    userId: string,
+    {
+      metric,
+      since,
+      until,
+      breakdown,
+    }: {
+      metric: string;
+      since?: number;
+      until?: number;
+      breakdown?: DemographicBreakdown;
+    },
+    requestOptions?: RequestOptions,
+  ): Promise<UserMetric[]> {
     const url = `${this.baseUrl}${userId}/threads_insights`;
     const params: Record<string, string> = {
-      metric: Array.isArray(metric) ? metric.join(",") : metric,
-      ...(options?.since && { since: options.since.toString() }),
-      ...(options?.until && { until: options.until.toString() }),
+      metric,
+      ...(since !== undefined && { since: since.toString() }),
+      ...(until !== undefined && { until: until.toString() }),
+      ...(breakdown && { breakdown }),
     };
 
-    try {
-      const response = await this.makeRequest<{
-        data: ThreadsUserInsightsResponse;
-      }>({
-        url,
-        method: "GET",
-        params,
-      });
-      return response.data;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    const response = await this.makeRequest<ThreadsUserInsightsResponse>({
+      url,
+      method: "GET",
+      params,
+      requestOptions,
+    });
+    return response.data;
+  }
+
+  /**
+   * Walk a list endpoint page by page, following the `after` cursor
+   * @param fetchPage Fetches the page that starts after the given cursor
+   * @param after Optional cursor to resume from
+   * @returns An async iterator over the items of every page
+   */
+  private async *paginate<T>(
+    fetchPage: (after?: string) => Promise<Page<T>>,
+    after?: string,
+  ): AsyncGenerator<T> {
+    let cursor = after;
+    do {
+      const page = await fetchPage(cursor);
+      for (const item of page.data) {
+        yield item;
+      }
+      cursor = page.paging?.next ? page.paging.cursors?.after : undefined;
+    } while (cursor);
   }
 
   /**
-   * Make a request to the Threads API
+   * Make a request to the Threads API, retrying transient failures
    * @param url The API endpoint URL
    * @param method The HTTP method
    * @param params The request parameters
+   * @param idempotent Whether the request can be repeated without side effects. Defaults to true for GET requests.
+   * @param authenticate Whether to send the access token. Token endpoints pass their token as a parameter instead.
+   * @param requestOptions Optional per-request settings
    * @returns The response data
    */
   private async makeRequest<T>({
     url,
     method,
     params,
-  }: {
-    url: string;
-    method: "GET" | "POST";
-    params: Record<string, string> | URLSearchParams;
-  }): Promise<T> {
-    const config = {
+    idempotent = method === "GET",
+    authenticate = true,
+    requestOptions,
+  }: ApiRequest): Promise<T> {
+    const accessToken = authenticate
+      ? await this.resolveAccessToken(requestOptions)
+      : null;
+    const request: HttpRequest = {
       method,
       url,
-      ...(method === "GET" ? { params } : { data: params }),
+      ...(method === "POST" ? { data: params } : { params }),
       headers: {
-        ...(this.accessToken && {
-          Authorization: `Bearer ${this.accessToken}`,
+        ...this.config.headers,
+        ...(accessToken && {
+          Authorization: `Bearer ${accessToken}`,
         }),
       },
     };
+    const timeout = requestOptions?.timeout ?? this.config.timeout;
+    const deadline = timeout ? Date.now() + timeout : undefined;
+    const retry: Required<RetryOptions> =
+      requestOptions?.retry === false
+        ? { ...DEFAULT_RETRY_OPTIONS, retries: 0 }
+        : {
+            ...DEFAULT_RETRY_OPTIONS,
+            ...this.config.retry,
+            ...requestOptions?.retry,
+          };
+
+    for (let attempt = 0; ; attempt += 1) {
+      try {
+        const response = await this.transport.request<T>({
+          ...request,
+          ...(deadline !== undefined && {
+            timeout: Math.max(1, deadline - Date.now()),
+          }),
+        });
+        this.rateLimits.update(response.headers);
+        if (response.status >= 400) {
+          throw createGraphError({
+            status: response.status,
+            data: response.data,
+            headers: response.headers,
+            message: `Request failed with status code ${response.status}`,
+          });
+        }
+        return response.data;
+      } catch (error) {
+        const apiError = this.handleError(error);
+        if (
+          attempt >= retry.retries ||
+          !isRetryableError(apiError, idempotent)
+        ) {
+          throw apiError;
+        }
+        const delay = getRetryDelay(attempt, apiError, retry);
+        // Give up instead of waiting past the call's timeout
+        if (deadline !== undefined && Date.now() + delay >= deadline) {
+          throw apiError;
+        }
+        await sleep(delay);
+      }
+    }
+  }
 
-    try {
-      const response: AxiosResponse<T> = await axios(config);
-      return response.data;
-    } catch (error) {
-      throw this.handleError(error);
+  /**
+   * Pick the token to authenticate a request with
+   * @param requestOptions Optional per-request settings
+   * @returns The per-request token, else the token set with `setAccessToken` or
+   * `forUser`, else the stored token, refreshed if needed
+   */
+  private async resolveAccessToken(
+    requestOptions?: RequestOptions,
+  ): Promise<string | null> {
+    if (requestOptions?.accessToken) {
+      return requestOptions.accessToken;
     }
+    if (this.accessToken) {
+      return this.accessToken;
+    }
+    return (await this.tokens.getAccessToken(this.tokenKey)) ?? null;
   }
 
   /**
-   * Handle errors from API requests
-   * @param error The error object
-   * @returns The error message
+   * Make sure the user's quota leaves room for the posts and replies about to be published
+   * @param userId The user ID
+   * @param posts Number of top-level posts to publish
+   * @param replies Number of replies to publish
+   * @param requestOptions Optional per-request settings
+   * @throws ThreadsQuotaExceededError if either quota is too small
    */
-  // eslint-disable-next-line class-methods-use-this
-  private handleError(error: any): Error {
-    if (axios.isAxiosError(error)) {
-      if (error.response) {
-        throw new Error(error.response.data.error_message || error.message);
+  private async assertPublishingQuota(
+    {
+      userId,
+      posts,
+      replies,
+    }: { userId: string; posts: number; replies: number },
+    requestOptions?: RequestOptions,
+  ): Promise<void> {
+    const limit = await this.getPublishingLimit(userId, requestOptions);
+    const checks = [
+      {
+        quota: "posts" as const,
+        needed: posts,
+        usage: limit.quota_usage ?? 0,
+        config: limit.config,
+      },
+      {
+        quota: "replies" as const,
+        needed: replies,
+        usage: limit.reply_quota_usage ?? 0,
+        config: limit.reply_config,
+      },
+    ];
+    for (const { quota, needed, usage, config } of checks) {
+      if (needed > 0 && config && usage + needed > config.quota_total) {
+        throw new ThreadsQuotaExceededError(
+          `Publishing quota exceeded: ${usage} of ${config.quota_total} ${quota} used in the last ${config.quota_duration / 3600} hours, ${needed} more needed`,
+          quota,
+          usage,
+          config.quota_total,
+        );
       }
-      throw new Error(error.message);
     }
-    throw error;
+  }
+
+  /**
+   * Handle errors from API requests
+   * @param error The error object
+   * @returns The error converted into a ThreadsAPIError
+   */
+  private handleError(error: unknown): Error {
+    return toThreadsAPIError(error);
   }
 }
@@ -0,0 +1,284 @@
+import type {
+  MediaMetric,
+  MetricName,
+  TimeSeriesValue,
+  TotalValue,
+  UserMetric,
+  UserMetricName,
+} from "./index";
+
+/**
+ * Unix timestamp (2024-04-13) before which no user insights are available.
+ */
+export const EARLIEST_INSIGHTS_TIMESTAMP = 1712991600;
+
+/**
+ * Longest `since`/`until` range in seconds requested at once. Longer ranges are
+ * split into several windows.
+ */
+export const MAX_INSIGHTS_WINDOW = 30 * 24 * 3600;
+
+/**
+ * User metrics that describe the account as it is now and ignore `since` and `until`.
+ */
+export const UNRANGED_USER_METRICS: readonly UserMetricName[] = [
+  "followers_count",
+  "follower_demographics",
+];
+
+// Metrics counted as an interaction when computing engagement rates
+const ENGAGEMENT_METRICS: MetricName[] = [
+  "likes",
+  "replies",
+  "reposts",
+  "quotes",
+  "shares",
+];
+
+/**
+ * A `since`/`until` range, both bounds included.
+ */
+export interface TimeWindow {
+  since?: number;
+  until?: number;
+}
+
+/**
+ * Split a time range into windows the API accepts. The windows do not overlap,
+ * each one starting the second after the previous one ends, so totals summed
+ * across them count every second once.
+ * @param since Start of the range as a Unix timestamp, clamped to EARLIEST_INSIGHTS_TIMESTAMP
+ * @param until End of the range as a Unix timestamp, defaults to now
+ * @param windowSize Longest window in seconds
+ * @returns Consecutive windows covering the range
+ */
+export function splitTimeRange(
+  since?: number,
+  until?: number,
+  windowSize: number = MAX_INSIGHTS_WINDOW,
+): TimeWindow[] {
+  if (since === undefined) {
+    return [{ until }];
+  }
+  const start = Math.max(since, EARLIEST_INSIGHTS_TIMESTAMP);
+  const end = until ?? Math.floor(Date.now() / 1000);
+  if (end <= start) {
+    return [{ since: start, until: end }];
+  }
+
+  const windows: TimeWindow[] = [];
+  for (let from = start; from <= end; from += windowSize) {
+    windows.push({ since: from, until: Math.min(from + windowSize - 1, end) });
+  }
+  return windows;
+}
+
+/**
+ * Add up two total values, combining clicks of the same link
+ * @param a The first total value
+ * @param b The second total value
+ * @returns The combined total value
+ */
+function addTotalValues(a: TotalValue, b: TotalValue): TotalValue {
+  const total: TotalValue = {
+    value: a.value + b.value,
+    ...((a.breakdowns ?? b.breakdowns) && {
+      breakdowns: a.breakdowns ?? b.breakdowns,
+    }),
+  };
+  if (a.link_total_values || b.link_total_values) {
+    const clicks = new Map<string, number>();
+    for (const { link_url, value } of [
+      ...(a.link_total_values ?? []),
+      ...(b.link_total_values ?? []),
+    ]) {
+      clicks.set(link_url, (clicks.get(link_url) ?? 0) + value);
+    }
+    total.link_total_values = Array.from(clicks, ([link_url, value]) => ({
+      link_url,
+      value,
+    }));
+  }
+  return total;
+}
+
+/**
+ * Merge user metrics fetched in several requests into one metric per name.
+ * Time series are concatenated in chronological order and total values are summed.
+ * @param results The metrics returned by each request
+ * @returns One metric per name
+ */
+export function mergeUserMetrics(results: UserMetric[][]): UserMetric[] {
+  const merged = new Map<UserMetricName, UserMetric>();
+  for (const metrics of results) {
+    for (const metric of metrics) {
+      const existing = merged.get(metric.name);
+      if (!existing) {
+        merged.set(metric.name, { ...metric });
+        continue;
+      }
+      if (metric.values) {
+        const values = new Map<string, TimeSeriesValue>();
+        for (const value of [...(existing.values ?? []), ...metric.values]) {
+          values.set(value.end_time, value);
+        }
+        existing.values = Array.from(values.values()).sort((a, b) =>
+          a.end_time.localeCompare(b.end_time),
+        );
+      }
+      if (metric.total_value) {
+        existing.total_value = existing.total_value
+          ? addTotalValues(existing.total_value, metric.total_value)
+          : metric.total_value;
+      }
+    }
+  }
+  return Array.from(merged.values());
+}
+
+/**
+ * Reduce metrics to a single number each
+ * @param metrics Media or user metrics
+ * @returns The total of every metric, keyed by name
+ */
+export function summarizeMetrics(
+  metrics: readonly (MediaMetric | UserMetric)[],
+): Partial<Record<MetricName, number>> {
+  const summary: Partial<Record<MetricName, number>> = {};
+  for (const metric of metrics) {
+    summary[metric.name] =
+      "total_value" in metric && metric.total_value
+        ? metric.total_value.value
+        : (metric.values ?? []).reduce((sum, { value }) => sum + value, 0);
+  }
+  return summary;
+}
+
+/**
+ * Compute the share of views that led to an interaction
+ * @param metrics The insights of a post, including `views`
+ * @returns Likes, replies, reposts, quotes and shares divided by views, or undefined without views
+ */
+export function getEngagementRate(
+  metrics: readonly (MediaMetric | UserMetric)[],
+): number | undefined {
+  const summary = summarizeMetrics(metrics);
+  if (!summary.views) {
+    return undefined;
+  }
+  const interactions = ENGAGEMENT_METRICS.reduce(
+    (sum, name) => sum + (summary[name] ?? 0),
+    0,
+  );
+  return interactions / summary.views;
+}
+
+/**
+ * A single data point of an insights report.
+ */
+export interface InsightsRow {
+  /**
+   * ID of the media or user the metric belongs to.
+   */
+  id?: string;
+  metric: MetricName;
+  period: string;
+  /**
+   * End of the day the value covers, for time series.
+   */
+  endTime?: string;
+  /**
+   * Breakdown the value belongs to, e.g. `country=US`, or the link URL for clicks.
+   */
+  dimension?: string;
+  value: number;
+}
+
+/**
+ * Flatten metrics into one row per value, ready for export
+ * @param metrics Media or user metrics
+ * @param id Optional ID of the media or user, added to every row
+ * @returns The rows
+ */
+export function flattenInsights(
+  metrics: readonly (MediaMetric | UserMetric)[],
+  id?: string,
+): InsightsRow[] {
+  const rows: InsightsRow[] = [];
+  for (const metric of metrics) {
+    const base = {
+      ...(id !== undefined && { id }),
+      metric: metric.name,
+      period: metric.period,
+    };
+    for (const value of (metric.values ?? []) as Partial<TimeSeriesValue>[]) {
+      rows.push({
+        ...base,
+        ...(value.end_time !== undefined && { endTime: value.end_time }),
+        value: value.value ?? 0,
+      });
+    }
+    const total = "total_value" in metric ? metric.total_value : undefined;
+    if (!total) {
+      continue;
+    }
+    rows.push({ ...base, value: total.value });
+    for (const breakdown of total.breakdowns ?? []) {
+      for (const result of breakdown.results) {
+        rows.push({
+          ...base,
+          dimension: breakdown.dimension_keys
+            .map((key, index) => `${key}=${result.dimension_values[index]}`)
+            .join(","),
+          value: result.value,
+        });
+      }
+    }
+    for (const { link_url, value } of total.link_total_values ?? []) {
+      rows.push({ ...base, dimension: link_url, value });
+    }
+  }
+  return rows;
+}
+
+const CSV_COLUMNS: (keyof InsightsRow)[] = [
+  "id",
+  "metric",
+  "period",
+  "endTime",
+  "dimension",
+  "value",
+];
+
+/**
+ * Quote a CSV field when needed
+ * @param value The field value
+ * @returns The escaped field
+ */
+function escapeCSV(value: string | number | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Export insights rows as CSV with a header line
+ * @param rows The rows from flattenInsights
+ * @returns The CSV document
+ */
+export function insightsToCSV(rows: readonly InsightsRow[]): string {
+  return [
+    CSV_COLUMNS.join(","),
+    ...rows.map((row) =>
+      CSV_COLUMNS.map((column) => escapeCSV(row[column])).join(","),
+    ),
+  ].join("\n");
+}
+
+/**
+ * Export insights rows as a JSON array
+ * @param rows The rows from flattenInsights
+ * @returns The JSON document
+ */
+export function insightsToJSON(rows: readonly InsightsRow[]): string {
+  return JSON.stringify(rows, null, 2);
+}
@@ -0,0 +1,16 @@
+export {
+  MockThreadsServer,
+  MockThreadsServerOptions,
+  MockFailure,
+  MockRequestLog,
+  MockResponse,
+} from "./server";
+export {
+  MockStore,
+  MockUser,
+  MockMedia,
+  MockContainer,
+  MockToken,
+  SHORT_LIVED_TOKEN_LIFETIME,
+  LONG_LIVED_TOKEN_LIFETIME,
+} from "./store";
@@ -0,0 +1,1457 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { evaluatePath } from "../batch";
+import type {
+  ContainerStatus,
+  GraphErrorBody,
+  HttpMethod,
+  HttpRequest,
+  HttpResponse,
+  HttpTransport,
+  MediaMetricName,
+  ReplyAudience,
+  Scope,
+  ThreadsMediaType,
+  UserMetricName,
+} from "../index";
+import { sleep } from "../retry";
+import { countCharacters, MAX_TEXT_LENGTH } from "../validation";
+import {
+  LONG_LIVED_TOKEN_LIFETIME,
+  MockMedia,
+  MockStore,
+  MockToken,
+  MockUser,
+  SHORT_LIVED_TOKEN_LIFETIME,
+} from "./store";
+
+/**
+ * A failure to return instead of handling matching requests.
+ */
+export interface MockFailure {
+  method?: HttpMethod;
+  /**
+   * Path to match without the version prefix, e.g. `me/threads_publish`.
+   * Strings match when the path ends with them. Every request matches when omitted.
+   */
+  path?: string | RegExp;
+  /**
+   * HTTP status to respond with. Defaults to 500.
+   */
+  status?: number;
+  /**
+   * Graph error to respond with. Defaults to a transient server error.
+   */
+  error?: GraphErrorBody;
+  headers?: Record<string, string>;
+  /**
+   * Number of matching requests to fail. Defaults to 1.
+   */
+  times?: number;
+}
+
+/**
+ * A request received by the mock server.
+ */
+export interface MockRequestLog {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+}
+
+/**
+ * A response produced by the mock server.
+ */
+export interface MockResponse {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface MockThreadsServerOptions {
+  /**
+   * App ID expected when exchanging authorization codes. Any is accepted when omitted.
+   */
+  clientId?: string;
+  /**
+   * App secret expected when exchanging tokens. Any is accepted when omitted.
+   */
+  clientSecret?: string;
+  /**
+   * Milliseconds to wait before answering every request. Defaults to 0.
+   */
+  latency?: number;
+  /**
+   * Status checks that report a new container as IN_PROGRESS before it is FINISHED. Defaults to 0.
+   */
+  containerPolls?: number;
+}
+
+class MockRequestError extends Error {
+  readonly status: number;
+
+  readonly body: GraphErrorBody;
+
+  constructor(status: number, body: GraphErrorBody) {
+    super(body.message);
+    this.status = status;
+    this.body = { fbtrace_id: "mock", ...body };
+  }
+}
+
+const DEFAULT_PAGE_SIZE = 25;
+
+const MEDIA_TYPES: Record<string, ThreadsMediaType> = {
+  TEXT: "TEXT_POST",
+  IMAGE: "IMAGE",
+  VIDEO: "VIDEO",
+  CAROUSEL: "CAROUSEL_ALBUM",
+};
+
+const MEDIA_METRICS: MediaMetricName[] = [
+  "views",
+  "likes",
+  "replies",
+  "reposts",
+  "quotes",
+  "shares",
+];
+
+const USER_METRICS: UserMetricName[] = [
+  "views",
+  "likes",
+  "replies",
+  "reposts",
+  "quotes",
+  "clicks",
+  "followers_count",
+  "follower_demographics",
+];
+
+const DAY = 24 * 3600 * 1000;
+
+// Posts and replies a profile may publish in 24 hours
+const POST_QUOTA = 250;
+const REPLY_QUOTA = 1000;
+
+const TRANSIENT_ERROR: GraphErrorBody = {
+  message: "An unexpected error has occurred. Please retry your request later.",
+  type: "OAuthException",
+  code: 2,
+  is_transient: true,
+};
+
+/**
+ * Build an error for an invalid parameter
+ * @param message The error message
+ * @returns The error
+ */
+function invalidParameter(message: string): MockRequestError {
+  return new MockRequestError(400, {
+    message,
+    type: "OAuthException",
+    code: 100,
+  });
+}
+
+/**
+ * Build an error for an unknown object or endpoint
+ * @param id The requested ID or path
+ * @returns The error
+ */
+function notFound(id: string): MockRequestError {
+  return new MockRequestError(400, {
+    message: `Unsupported request. Object with ID '${id}' does not exist`,
+    type: "GraphMethodException",
+    code: 100,
+    error_subcode: 33,
+  });
+}
+
+/**
+ * Build an error for a request the token is not allowed to make
+ * @param message The error message
+ * @returns The error
+ */
+function permissionDenied(message: string): MockRequestError {
+  return new MockRequestError(403, {
+    message,
+    type: "OAuthException",
+    code: 10,
+  });
+}
+
+/**
+ * Keep only the requested fields of an object
+ * @param object The full object
+ * @param fields The comma-separated field list, `id` is always included
+ * @returns The selected fields
+ */
+function selectFields(
+  object: Record<string, unknown>,
+  fields: string | undefined,
+): Record<string, unknown> {
+  const selected: Record<string, unknown> = {};
+  new Set(["id", ...(fields ?? "").split(",")]).forEach((name) => {
+    if (object[name] !== undefined) {
+      selected[name] = object[name];
+    }
+  });
+  return selected;
+}
+
+/**
+ * Parse a `since` or `until` parameter given as a Unix timestamp or a date
+ * @param value The parameter value
+ * @returns Milliseconds since the epoch, or undefined when absent
+ */
+function parseTime(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  return /^\d+$/.test(value) ? Number(value) * 1000 : Date.parse(value);
+}
+
+/**
+ * Parse a mock timestamp, e.g. `2024-06-01T12:00:00+0000`
+ * @param timestamp The timestamp
+ * @returns Milliseconds since the epoch
+ */
+function parseTimestamp(timestamp: string): number {
+  return Date.parse(timestamp.replace(/\+0000$/, "Z"));
+}
+
+/**
+ * Return one page of items, using the item index as cursor
+ * @param items Every item
+ * @param params The request parameters, read for `limit` and `after`
+ * @returns The page
+ */
+function paginate<T>(items: T[], params: Record<string, string>) {
+  const limit = Number(params.limit) || DEFAULT_PAGE_SIZE;
+  const start = params.after
+    ? Number(Buffer.from(params.after, "base64").toString())
+    : 0;
+  const data = items.slice(start, start + limit);
+  const end = start + data.length;
+  return {
+    data,
+    paging: {
+      cursors: {
+        before: Buffer.from(String(start)).toString("base64"),
+        after: Buffer.from(String(end)).toString("base64"),
+      },
+      ...(end < items.length && {
+        next: `?after=${Buffer.from(String(end)).toString("base64")}`,
+      }),
+    },
+  };
+}
+
+/**
+ * Read the parameters of a request from its query string and body
+ * @param req The request
+ * @returns The path and merged parameters
+ */
+async function readRequest(
+  req: IncomingMessage,
+): Promise<{ path: string; params: Record<string, string> }> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString();
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const params: Record<string, string> = {};
+  url.searchParams.forEach((value, key) => {
+    params[key] = value;
+  });
+  if (raw) {
+    if ((req.headers["content-type"] ?? "").includes("application/json")) {
+      Object.entries(JSON.parse(raw) as Record<string, unknown>).forEach(
+        ([key, value]) => {
+          params[key] = String(value);
+        },
+      );
+    } else {
+      new URLSearchParams(raw).forEach((value, key) => {
+        params[key] = value;
+      });
+    }
+  }
+  return { path: url.pathname, params };
+}
+
+/**
+ * An in-process fake of the Threads API for offline tests. It serves the
+ * endpoints ThreadsAPI uses from an in-memory store, and can be scripted to
+ * fail or slow down.
+ *
+ *     const server = new MockThreadsServer();
+ *     const baseUrl = await server.start();
+ *     const { user, accessToken } = server.store.createUser({ username: "alice" });
+ *     const api = new ThreadsAPI({ ...config, baseUrl });
+ *     api.setAccessToken(accessToken);
+ *
+ * Pass `server.transport()` as `transport` instead to skip HTTP altogether.
+ */
+export class MockThreadsServer {
+  readonly store = new MockStore();
+
+  /**
+   * Every request received, oldest first. Operations of a batch are logged individually.
+   */
+  readonly requests: MockRequestLog[] = [];
+
+  private clientId?: string;
+
+  private clientSecret?: string;
+
+  private latency: number;
+
+  private containerPolls: number;
+
+  private failures: (MockFailure & { remaining: number })[] = [];
+
+  private containerOutcomes: {
+    status: ContainerStatus;
+    errorMessage?: string;
+  }[] = [];
+
+  private server?: Server;
+
+  constructor(options: MockThreadsServerOptions = {}) {
+    this.clientId = options.clientId;
+    this.clientSecret = options.clientSecret;
+    this.latency = options.latency ?? 0;
+    this.containerPolls = options.containerPolls ?? 0;
+  }
+
+  /**
+   * Root URL of the running server, e.g. `http://127.0.0.1:54321/`.
+   */
+  get url(): string {
+    const address = this.server?.address() as AddressInfo | null | undefined;
+    if (!address) {
+      throw new Error("The mock server is not running");
+    }
+    return `http://127.0.0.1:${address.port}/`;
+  }
+
+  /**
+   * URL to pass as `baseUrl` to ThreadsAPI.
+   */
+  get baseUrl(): string {
+    return `${this.url}v1.0/`;
+  }
+
+  /**
+   * Start listening on localhost
+   * @param port The port, defaults to a free one
+   * @returns The base URL to pass to ThreadsAPI
+   */
+  async start(port = 0): Promise<string> {
+    if (this.server) {
+      return this.baseUrl;
+    }
+    const server = createServer((req, res) => this.listener(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, "127.0.0.1", () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    return this.baseUrl;
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    const { server } = this;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      );
+    }
+  }
+
+  /**
+   * Create a transport that answers ThreadsAPI requests in-process, so the
+   * server does not need to be started
+   * @returns The transport to pass as `transport` to ThreadsAPI
+   */
+  transport(): HttpTransport {
+    return {
+      request: async <T>(request: HttpRequest): Promise<HttpResponse<T>> => {
+        const url = new URL(request.url);
+        const params: Record<string, string> = {};
+        url.searchParams.forEach((value, name) => {
+          params[name] = value;
+        });
+        new URLSearchParams(
+          request.method === "POST" ? request.data : request.params,
+        ).forEach((value, name) => {
+          params[name] = value;
+        });
+        const authorization = Object.keys(request.headers).find(
+          (name) => name.toLowerCase() === "authorization",
+        );
+        const response = await this.handle(
+          request.method,
+          url.pathname,
+          params,
+          authorization && request.headers[authorization],
+        );
+        const headers: Record<string, string> = {};
+        Object.keys(response.headers ?? {}).forEach((name) => {
+          headers[name.toLowerCase()] = response.headers?.[name] ?? "";
+        });
+        return {
+          status: response.status,
+          // Copy the body so callers cannot change the stored state
+          data: JSON.parse(JSON.stringify(response.body)) as T,
+          headers,
+        };
+      },
+    };
+  }
+
+  /**
+   * Fail the next matching requests
+   * @param failure Which requests to fail and how
+   * @returns The server, for chaining
+   */
+  failNext(failure: MockFailure = {}): this {
+    this.failures.push({ ...failure, remaining: failure.times ?? 1 });
+    return this;
+  }
+
+  /**
+   * Make the next media container end in an error state instead of FINISHED
+   * @param status The final status of the container. Defaults to ERROR.
+   * @param errorMessage The error message reported with the status
+   * @returns The server, for chaining
+   */
+  failNextContainer(
+    status: "ERROR" | "EXPIRED" = "ERROR",
+    errorMessage = "FAILED_PROCESSING_VIDEO",
+  ): this {
+    this.containerOutcomes.push({ status, errorMessage });
+    return this;
+  }
+
+  /**
+   * Change the delay applied to every request
+   * @param latency Milliseconds to wait before answering
+   * @returns The server, for chaining
+   */
+  setLatency(latency: number): this {
+    this.latency = latency;
+    return this;
+  }
+
+  /**
+   * Forget all state, logged requests and scripted failures
+   */
+  reset(): void {
+    this.store.clear();
+    this.requests.length = 0;
+    this.failures = [];
+    this.containerOutcomes = [];
+  }
+
+  /**
+   * Answer a request without going through HTTP
+   * @param method The HTTP method
+   * @param path The request path, with or without version prefix
+   * @param params The query and body parameters
+   * @param authorization The `Authorization` header, if any
+   * @returns The response
+   */
+  async handle(
+    method: string,
+    path: string,
+    params: Record<string, string>,
+    authorization?: string,
+  ): Promise<MockResponse> {
+    if (this.latency > 0) {
+      await sleep(this.latency);
+    }
+    const segments = path
+      .replace(/^\/+/, "")
+      .replace(/^v\d+\.\d+\/?/, "")
+      .replace(/\/+$/, "");
+    if (method === "POST" && segments === "" && params.batch) {
+      return this.handleBatch(params, authorization);
+    }
+    return this.dispatch(method, segments, params, authorization);
+  }
+
+  private async listener(
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): Promise<void> {
+    let response: MockResponse;
+    try {
+      const { path, params } = await readRequest(req);
+      response = await this.handle(
+        req.method ?? "GET",
+        path,
+        params,
+        req.headers.authorization,
+      );
+    } catch (error) {
+      response = {
+        status: 400,
+        body: {
+          error: { message: (error as Error).message, code: 100 },
+        },
+      };
+    }
+    res.writeHead(response.status, {
+      "Content-Type": "application/json",
+      ...response.headers,
+    });
+    res.end(JSON.stringify(response.body));
+  }
+
+  /**
+   * Log a request, apply scripted failures and route it
+   * @param method The HTTP method
+   * @param path The path without version prefix
+   * @param params The request parameters
+   * @param authorization The `Authorization` header, if any
+   * @returns The response
+   */
+  private dispatch(
+    method: string,
+    path: string,
+    params: Record<string, string>,
+    authorization?: string,
+  ): MockResponse {
+    this.requests.push({ method, path, params });
+
+    const failure = this.failures.find(
+      (candidate) =>
+        (!candidate.method || candidate.method === method) &&
+        (candidate.path === undefined ||
+          (typeof candidate.path === "string"
+            ? path.endsWith(candidate.path)
+            : candidate.path.test(path))),
+    );
+    if (failure) {
+      failure.remaining -= 1;
+      if (failure.remaining <= 0) {
+        this.failures.splice(this.failures.indexOf(failure), 1);
+      }
+      return {
+        status: failure.status ?? 500,
+        body: {
+          error: { fbtrace_id: "mock", ...(failure.error ?? TRANSIENT_ERROR) },
+        },
+        headers: failure.headers,
+      };
+    }
+
+    try {
+      return {
+        status: 200,
+        body: this.route(method, path, params, authorization),
+      };
+    } catch (error) {
+      if (error instanceof MockRequestError) {
+        return { status: error.status, body: { error: error.body } };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run the operations of a batch request in order
+   * @param params The request parameters, including `batch`
+   * @param authorization The `Authorization` header, if any
+   * @returns The batch response
+   */
+  private handleBatch(
+    params: Record<string, string>,
+    authorization?: string,
+  ): MockResponse {
+    const operations = JSON.parse(params.batch) as {
+      method: string;
+      relative_url: string;
+      name?: string;
+      body?: string;
+    }[];
+    if (operations.length > 50) {
+      throw invalidParameter(
+        "Too many requests in batch message. Maximum batch size is 50",
+      );
+    }
+    const bodies = new Map<string, unknown>();
+    const failed = new Set<string>();
+
+    const body = operations.map((operation) => {
+      let unresolved = false;
+      const resolve = (value: string) =>
+        value.replace(
+          /\{result=([^:}]+):([^}]+)\}/g,
+          (_, name: string, path: string) => {
+            if (failed.has(name) || !bodies.has(name)) {
+              unresolved = true;
+              return "";
+            }
+            return evaluatePath(bodies.get(name), path).join(",");
+          },
+        );
+      const relativeUrl = resolve(decodeURIComponent(operation.relative_url));
+      const [path, query = ""] = relativeUrl.split("?");
+      const operationParams: Record<string, string> = {};
+      new URLSearchParams(query).forEach((value, key) => {
+        operationParams[key] = value;
+      });
+      new URLSearchParams(resolve(operation.body ?? "")).forEach(
+        (value, key) => {
+          operationParams[key] = value;
+        },
+      );
+      if (unresolved) {
+        if (operation.name) {
+          failed.add(operation.name);
+        }
+        return null;
+      }
+
+      const response = this.dispatch(
+        operation.method.toUpperCase(),
+        path.replace(/^\/+/, ""),
+        { access_token: params.access_token, ...operationParams },
+        authorization,
+      );
+      if (operation.name) {
+        if (response.status >= 400) {
+          failed.add(operation.name);
+        } else {
+          bodies.set(operation.name, response.body);
+        }
+      }
+      return {
+        code: response.status,
+        headers: Object.entries(response.headers ?? {}).map(
+          ([name, value]) => ({
+            name,
+            value,
+          }),
+        ),
+        body: JSON.stringify(response.body),
+      };
+    });
+    return { status: 200, body };
+  }
+
+  /**
+   * Find the token of a request
+   * @param params The request parameters
+   * @param authorization The `Authorization` header, if any
+   * @returns The token
+   */
+  private authenticate(
+    params: Record<string, string>,
+    authorization?: string,
+  ): MockToken {
+    const accessToken =
+      authorization?.replace(/^Bearer\s+/i, "") || params.access_token;
+    const token = accessToken ? this.store.tokens.get(accessToken) : undefined;
+    if (!token) {
+      throw new MockRequestError(401, {
+        message: "Invalid OAuth access token - Cannot parse access token",
+        type: "OAuthException",
+        code: 190,
+      });
+    }
+    if (token.expiresAt * 1000 < Date.now()) {
+      throw new MockRequestError(401, {
+        message: "Error validating access token: Session has expired",
+        type: "OAuthException",
+        code: 190,
+        error_subcode: 463,
+      });
+    }
+    return token;
+  }
+
+  /**
+   * Check the app secret of a token request when one is configured
+   * @param secret The secret sent with the request
+   */
+  private checkSecret(secret: string | undefined): void {
+    if (this.clientSecret && secret !== this.clientSecret) {
+      throw invalidParameter("Error validating client secret.");
+    }
+  }
+
+  /**
+   * Check the token was granted a scope
+   * @param token The token
+   * @param scope The required scope
+   */
+  private requireScope(token: MockToken, scope: Scope): void {
+    if (!token.scopes.includes(scope)) {
+      throw permissionDenied(
+        `(#10) Application does not have permission for this action: ${scope} is required`,
+      );
+    }
+  }
+
+  /**
+   * Answer a request
+   * @param method The HTTP method
+   * @param path The path without version prefix
+   * @param params The request parameters
+   * @param authorization The `Authorization` header, if any
+   * @returns The response body
+   */
+  private route(
+    method: string,
+    path: string,
+    params: Record<string, string>,
+    authorization?: string,
+  ): unknown {
+    switch (`${method} ${path}`) {
+      case "POST oauth/access_token":
+        return this.exchangeCode(params);
+      case "GET access_token":
+        return this.exchangeToken(params);
+      case "GET refresh_access_token":
+        return this.refreshToken(params);
+      case "GET debug_token":
+        return this.debugToken(params);
+      default:
+        break;
+    }
+
+    const token = this.authenticate(params, authorization);
+    switch (`${method} ${path}`) {
+      case "GET keyword_search":
+        return this.searchKeyword(params, token);
+      case "GET profile_lookup":
+        return this.lookupProfile(params, token);
+      case "GET profile_posts":
+        return this.listProfileMedia(params, token, false);
+      case "GET profile_replies":
+        return this.listProfileMedia(params, token, true);
+      default:
+        break;
+    }
+    const [rawId, edge, ...rest] = path.split("/");
+    const id = rawId === "me" ? token.userId : rawId;
+    if (!id || rest.length > 0) {
+      throw notFound(path);
+    }
+
+    switch (`${method} ${edge ?? ""}`) {
+      case "GET ":
+        return this.getObject(id, params, token);
+      case "DELETE ":
+        return this.deleteMedia(id, token);
+      case "POST repost":
+        return this.repost(id, token);
+      case "GET threads":
+        return this.listThreads(id, params, token);
+      case "POST threads":
+        return this.createContainer(id, params, token);
+      case "POST threads_publish":
+        return this.publishContainer(id, params, token);
+      case "GET mentions":
+        return this.listMentions(id, params, token);
+      case "GET replies":
+        return this.listReplies(id, params, token, false);
+      case "GET conversation":
+        return this.listReplies(id, params, token, true);
+      case "POST manage_reply":
+        return this.manageReply(id, params, token);
+      case "GET insights":
+        return this.mediaInsights(id, params, token);
+      case "GET threads_insights":
+        return this.userInsights(id, params, token);
+      case "GET threads_publishing_limit":
+        return this.publishingLimit(id, params, token);
+      default:
+        throw notFound(path);
+    }
+  }
+
+  private exchangeCode(params: Record<string, string>) {
+    if (this.clientId && params.client_id !== this.clientId) {
+      throw invalidParameter(
+        "Error validating application. Invalid application ID.",
+      );
+    }
+    this.checkSecret(params.client_secret);
+    const code = (params.code ?? "").replace(/#_$/, "");
+    const userId = this.store.authorizationCodes.get(code);
+    if (!userId) {
+      throw invalidParameter("Invalid verification code format.");
+    }
+    this.store.authorizationCodes.delete(code);
+    return {
+      access_token: this.store.issueToken(userId, false),
+      token_type: "bearer",
+      expires_in: SHORT_LIVED_TOKEN_LIFETIME,
+      user_id: userId,
+    };
+  }
+
+  private exchangeToken(params: Record<string, string>) {
+    if (params.grant_type !== "th_exchange_token") {
+      throw invalidParameter("Unsupported grant_type");
+    }
+    this.checkSecret(params.client_secret);
+    const token = this.authenticate(params);
+    return {
+      access_token: this.store.issueToken(token.userId, true, token.scopes),
+      token_type: "bearer",
+      expires_in: LONG_LIVED_TOKEN_LIFETIME,
+    };
+  }
+
+  private refreshToken(params: Record<string, string>) {
+    if (params.grant_type !== "th_refresh_token") {
+      throw invalidParameter("Unsupported grant_type");
+    }
+    const token = this.authenticate(params);
+    if (!token.longLived) {
+      throw invalidParameter("Only long-lived tokens can be refreshed");
+    }
+    return {
+      access_token: this.store.issueToken(token.userId, true, token.scopes),
+      token_type: "bearer",
+      expires_in: LONG_LIVED_TOKEN_LIFETIME,
+    };
+  }
+
+  private debugToken(params: Record<string, string>) {
+    const [appId, secret] = (params.access_token ?? "").split("|");
+    if (this.clientId && appId !== this.clientId) {
+      throw invalidParameter("Invalid app access token");
+    }
+    this.checkSecret(secret);
+    const token = this.store.tokens.get(params.input_token ?? "");
+    if (!token) {
+      return {
+        data: {
+          type: "USER",
+          application: appId,
+          expires_at: 0,
+          is_valid: false,
+          error: { code: 190, message: "Invalid OAuth access token." },
+        },
+      };
+    }
+    return {
+      data: {
+        type: "USER",
+        application: appId,
+        expires_at: token.expiresAt,
+        issued_at: token.issuedAt,
+        is_valid: token.expiresAt * 1000 >= Date.now(),
+        scopes: token.scopes,
+        user_id: token.userId,
+      },
+    };
+  }
+
+  /**
+   * Present a media object the way the API returns it
+   * @param media The stored media
+   * @param token The token of the request
+   * @param fields The requested fields
+   * @returns The selected fields
+   */
+  private presentMedia(
+    media: MockMedia,
+    token: MockToken,
+    fields: string | undefined,
+  ): Record<string, unknown> {
+    const { insights: _insights, children, ...rest } = media;
+    return selectFields(
+      {
+        ...rest,
+        ...(children.length > 0 && {
+          children: { data: children.map((id) => ({ id })) },
+        }),
+        ...(media.is_reply && {
+          is_reply_owned_by_me: media.owner.id === token.userId,
+        }),
+      },
+      fields,
+    );
+  }
+
+  private getObject(
+    id: string,
+    params: Record<string, string>,
+    token: MockToken,
+  ) {
+    const user = this.store.users.get(id);
+    if (user) {
+      const { scopes: _scopes, followersCount: _followers, ...profile } = user;
+      return selectFields({ ...profile }, params.fields);
+    }
+    const media = this.store.media.get(id);
+    if (media) {
+      return this.presentMedia(media, token, params.fields);
+    }
+    const container = this.store.containers.get(id);
+    if (container) {
+      if (container.status === "IN_PROGRESS") {
+        container.pendingPolls -= 1;
+        if (container.pendingPolls <= 0) {
+          container.status = "FINISHED";
+        }
+      }
+      return selectFields(
+        {
+          id: container.id,
+          status: container.status,
+          error_message: container.errorMessage,
+        },
+        params.fields,
+      );
+    }
+    throw notFound(id);
+  }
+
+  private listThreads(
+    id: string,
+    params: Record<string, string>,
+    token: MockToken,
+  ) {
+    if (id !== token.userId) {
+      throw permissionDenied("Cannot read the threads of another user");
+    }
+    const since = parseTime(params.since);
+    const until = parseTime(params.until);
+    const threads = Array.from(this.store.media.values())
+      .filter(
+        (media) =>
+          media.owner.id === id &&
+          !media.is_reply &&
+          (since === undefined || parseTimestamp(media.timestamp) >= since) &&
+          (until === undefined || parseTimestamp(media.timestamp) <= until),
+      )
+      .sort(
+        (a, b) => parseTimestamp(b.timestamp) - parseTimestamp(a.timestamp),
+      );
+    const page = paginate(threads, params);
+    return {
+      ...page,
+      data: page.data.map((media) =>
+        this.presentMedia(media, token, params.fields),
+      ),
+    };
+  }
+
+  private deleteMedia(id: string, token: MockToken) {
+    this.requireScope(token, "threads_delete");
+    const media = this.store.media.get(id);
+    if (!media) {
+      throw notFound(id);
+    }
+    if (media.owner.id !== token.userId) {
+      throw permissionDenied("Cannot delete the media of another user");
+    }
+    this.store.media.delete(id);
+    return { success: true, deleted_id: id };
+  }
+
+  private repost(id: string, token: MockToken) {
+    this.requireScope(token, "threads_content_publish");
+    const original = this.store.media.get(id);
+    if (!original) {
+      throw notFound(id);
+    }
+    const reposted = Array.from(this.store.media.values()).some(
+      (media) =>
+        media.owner.id === token.userId && media.reposted_post?.id === id,
+    );
+    if (reposted) {
+      throw invalidParameter("You have already reposted this post");
+    }
+    const repost = this.store.createMedia({
+      userId: token.userId,
+      mediaType: "REPOST_FACADE",
+    });
+    repost.reposted_post = { id };
+    return { id: repost.id };
+  }
+
+  /**
+   * Find the public profile named by the `username` parameter
+   * @param params The request parameters
+   * @returns The user
+   */
+  private findProfile(params: Record<string, string>): MockUser {
+    const username = (params.username ?? "").toLowerCase();
+    const user = Array.from(this.store.users.values()).find(
+      (candidate) => candidate.username.toLowerCase() === username,
+    );
+    if (!user) {
+      throw notFound(params.username ?? "");
+    }
+    return user;
+  }
+
+  private lookupProfile(params: Record<string, string>, token: MockToken) {
+    this.requireScope(token, "threads_profile_discovery");
+    const user = this.findProfile(params);
+    const posts = Array.from(this.store.media.values()).filter(
+      (media) => media.owner.id === user.id,
+    );
+    const total = (name: MediaMetricName) =>
+      posts.reduce((sum, media) => sum + (media.insights[name] ?? 0), 0);
+    return selectFields(
+      {
+        username: user.username,
+        name: user.name,
+        profile_picture_url: user.threads_profile_picture_url,
+        biography: user.threads_biography,
+        is_verified: user.is_verified,
+        profile_links: user.profile_links,
+        follower_count: user.followersCount,
+        likes_count: total("likes"),
+        quotes_count: total("quotes"),
+        replies_count: total("replies"),
+        reposts_count: total("reposts"),
+        views_count: total("views"),
+      },
+      params.fields,
+    );
+  }
+
+  private listProfileMedia(
+    params: Record<string, string>,
+    token: MockToken,
+    replies: boolean,
+  ) {
+    this.requireScope(token, "threads_profile_discovery");
+    const user = this.findProfile(params);
+    const since = parseTime(params.since);
+    const until = parseTime(params.until);
+    const media = Array.from(this.store.media.values())
+      .filter(
+        (candidate) =>
+          candidate.owner.id === user.id &&
+          candidate.is_reply === replies &&
+          (since === undefined ||
+            parseTimestamp(candidate.timestamp) >= since) &&
+          (until === undefined || parseTimestamp(candidate.timestamp) <= until),
+      )
+      .sort(
+        (a, b) => parseTimestamp(b.timestamp) - parseTimestamp(a.timestamp),
+      );
+    const page = paginate(media, params);
+    return {
+      ...page,
+      data: page.data.map((candidate) =>
+        this.presentMedia(candidate, token, params.fields),
+      ),
+    };
+  }
+
+  private searchKeyword(params: Record<string, string>, token: MockToken) {
+    this.requireScope(token, "threads_keyword_search");
+    const query = (params.q ?? "").trim().toLowerCase();
+    if (!query) {
+      throw invalidParameter("The parameter q is required");
+    }
+    const since = parseTime(params.since);
+    const until = parseTime(params.until);
+    const byTag = params.search_mode === "TAG";
+    const mediaType = params.media_type && MEDIA_TYPES[params.media_type];
+    const results = Array.from(this.store.media.values())
+      .filter(
+        (media) =>
+          (byTag
+            ? (media.topic_tag ?? "").toLowerCase() === query
+            : (media.text ?? "").toLowerCase().includes(query)) &&
+          (!mediaType || media.media_type === mediaType) &&
+          (since === undefined || parseTimestamp(media.timestamp) >= since) &&
+          (until === undefined || parseTimestamp(media.timestamp) <= until),
+      )
+      .sort((a, b) =>
+        params.search_type === "RECENT"
+          ? parseTimestamp(b.timestamp) - parseTimestamp(a.timestamp)
+          : (b.insights.likes ?? 0) - (a.insights.likes ?? 0),
+      );
+    const page = paginate(results, params);
+    return {
+      ...page,
+      data: page.data.map((media) =>
+        this.presentMedia(media, token, params.fields),
+      ),
+    };
+  }
+
+  private listMentions(
+    id: string,
+    params: Record<string, string>,
+    token: MockToken,
+  ) {
+    this.requireScope(token, "threads_manage_mentions");
+    if (id !== token.userId) {
+      throw permissionDenied("Cannot read the mentions of another user");
+    }
+    const user = this.store.users.get(id);
+    if (!user) {
+      throw notFound(id);
+    }
+    const mention = new RegExp(`(^|[^\\w.])@${user.username}(?![\\w.])`, "i");
+    const since = parseTime(params.since);
+    const until = parseTime(params.until);
+    const mentions = Array.from(this.store.media.values())
+      .filter(
+        (media) =>
+          media.owner.id !== id &&
+          mention.test(media.text ?? "") &&
+          (since === undefined || parseTimestamp(media.timestamp) >= since) &&
+          (until === undefined || parseTimestamp(media.timestamp) <= until),
+      )
+      .sort(
+        (a, b) => parseTimestamp(b.timestamp) - parseTimestamp(a.timestamp),
+      );
+    const page = paginate(mentions, params);
+    return {
+      ...page,
+      data: page.data.map((media) =>
+        this.presentMedia(media, token, params.fields),
+      ),
+    };
+  }
+
+  private createContainer(
+    id: string,
+    params: Record<string, string>,
+    token: MockToken,
+  ) {
+    if (id !== token.userId) {
+      throw permissionDenied("Cannot publish on behalf of another user");
+    }
+    this.requireScope(token, "threads_content_publish");
+    const mediaType = params.media_type;
+    if (!MEDIA_TYPES[mediaType]) {
+      throw invalidParameter(`Invalid media_type: ${mediaType}`);
+    }
+    if (mediaType === "TEXT" && !params.text) {
+      throw invalidParameter("Text posts require the text parameter");
+    }
+    if (mediaType === "IMAGE" && !params.image_url) {
+      throw invalidParameter("Image posts require the image_url parameter");
+    }
+    if (mediaType === "VIDEO" && !params.video_url) {
+      throw invalidParameter("Video posts require the video_url parameter");
+    }
+    if (params.text && countCharacters(params.text) > MAX_TEXT_LENGTH) {
+      throw invalidParameter(
+        `The text must be ${MAX_TEXT_LENGTH} characters or less`,
+      );
+    }
+    if (mediaType === "CAROUSEL") {
+      const children = (params.children ?? "").split(",").filter(Boolean);
+      if (children.length < 2 || children.length > 20) {
+        throw invalidParameter("Carousels must have between 2 and 20 children");
+      }
+      for (const childId of children) {
+        const child = this.store.containers.get(childId);
+        if (!child || child.userId !== id || !child.isCarouselItem) {
+          throw invalidParameter(`Invalid carousel item: ${childId}`);
+        }
+      }
+    }
+    for (const key of ["reply_to_id", "quote_post_id"]) {
+      if (params[key] && !this.store.media.has(params[key])) {
+        throw notFound(params[key]);
+      }
+    }
+
+    const container = this.store.createContainer(
+      id,
+      params,
+      this.containerPolls,
+    );
+    const outcome = this.containerOutcomes.shift();
+    if (outcome) {
+      container.status = outcome.status;
+      container.errorMessage = outcome.errorMessage;
+    }
+    return { id: container.id };
+  }
+
+  private publishContainer(
+    id: string,
+    params: Record<string, string>,
+    token: MockToken,
+  ) {
+    if (id !== token.userId) {
+      throw permissionDenied("Cannot publish on behalf of another user");
+    }
+    this.requireScope(token, "threads_content_publish");
+    const container = this.store.containers.get(params.creation_id ?? "");
+    if (!container || container.userId !== id) {
+      throw notFound(params.creation_id ?? "");
+    }
+    if (container.status !== "FINISHED") {
+      throw new MockRequestError(400, {
+        message: `The media container is ${container.status} and cannot be published`,
+        type: "OAuthException",
+        code: 9007,
+        error_subcode: 2207027,
+      });
+    }
+
+    const { params: containerParams } = container;
+    const media = this.store.createMedia({
+      userId: id,
+      text: containerParams.text,
+      mediaType: MEDIA_TYPES[containerParams.media_type],
+      mediaUrl: containerParams.image_url ?? containerParams.video_url,
+      replyToId: containerParams.reply_to_id,
+      children: (containerParams.children ?? "").split(",").filter(Boolean),
+    });
+    if (containerParams.quote_post_id) {
+      media.is_quote_post = true;
+      media.quoted_post = { id: containerParams.quote_post_id };
+    }
+    if (containerParams.topic_tag) {
+      media.topic_tag = containerParams.topic_tag;
+    }
+    if (containerParams.reply_control) {
+      media.reply_audience =
+        containerParams.reply_control.toUpperCase() as ReplyAudience;
+    }
+    container.status = "PUBLISHED";
+    container.publishedId = media.id;
+    return { id: media.id };
+  }
+
+  private listReplies(
+    id: string,
+    params: Record<string, string>,
+    token: MockToken,
+    nested: boolean,
+  ) {
+    if (!this.store.media.has(id)) {
+      throw notFound(id);
+    }
+    this.requireScope(token, "threads_read_replies");
+    const all = Array.from(this.store.media.values());
+    const replies: MockMedia[] = [];
+    const collect = (parentId: string) => {
+      for (const media of all) {
+        if (media.replied_to?.id === parentId) {
+          replies.push(media);
+          if (nested) {
+            collect(media.id);
+          }
+        }
+      }
+    };
+    collect(id);
+
+    const direction = params.reverse === "false" ? 1 : -1;
+    replies.sort(
+      (a, b) =>
+        direction * (parseTimestamp(a.timestamp) - parseTimestamp(b.timestamp)),
+    );
+    const page = paginate(replies, params);
+    return {
+      ...page,
+      data: page.data.map((media) =>
+        this.presentMedia(media, token, params.fields),
+      ),
+    };
+  }
+
+  private manageReply(
+    id: string,
+    params: Record<string, string>,
+    token: MockToken,
+  ) {
+    this.requireScope(token, "threads_manage_replies");
+    const reply = this.store.media.get(id);
+    if (!reply || !reply.is_reply) {
+      throw notFound(id);
+    }
+    const root = this.store.media.get(reply.root_post?.id ?? "");
+    if (root?.owner.id !== token.userId) {
+      throw permissionDenied(
+        "Only the author of the post can hide its replies",
+      );
+    }
+    reply.hide_status = params.hide === "true" ? "HIDDEN" : "UNHUSHED";
+    return { success: true };
+  }
+
+  private mediaInsights(
+    id: string,
+    params: Record<string, string>,
+    token: MockToken,
+  ) {
+    this.requireScope(token, "threads_manage_insights");
+    const media = this.store.media.get(id);
+    if (!media) {
+      throw notFound(id);
+    }
+    if (media.owner.id !== token.userId) {
+      throw permissionDenied(
+        "Cannot read the insights of another user's media",
+      );
+    }
+    const metrics = (params.metric ?? "").split(",") as MediaMetricName[];
+    const invalid = metrics.find((name) => !MEDIA_METRICS.includes(name));
+    if (invalid !== undefined) {
+      throw invalidParameter(`Invalid metric: ${invalid}`);
+    }
+    return {
+      data: metrics.map((name) => ({
+        name,
+        period: "lifetime",
+        values: [{ value: media.insights[name] ?? 0 }],
+        title: name,
+        description: "",
+        id: `${id}/insights/${name}/lifetime`,
+      })),
+    };
+  }
+
+  private publishingLimit(
+    id: string,
+    params: Record<string, string>,
+    token: MockToken,
+  ) {
+    if (id !== token.userId) {
+      throw permissionDenied("Cannot read the quota of another user");
+    }
+    const since = Date.now() - DAY;
+    const published = Array.from(this.store.media.values()).filter(
+      (media) =>
+        media.owner.id === id && parseTimestamp(media.timestamp) >= since,
+    );
+    const replies = published.filter((media) => media.is_reply).length;
+    return {
+      data: [
+        selectFields(
+          {
+            quota_usage: published.length - replies,
+            config: { quota_total: POST_QUOTA, quota_duration: DAY / 1000 },
+            reply_quota_usage: replies,
+            reply_config: {
+              quota_total: REPLY_QUOTA,
+              quota_duration: DAY / 1000,
+            },
+          },
+          params.fields,
+        ),
+      ],
+    };
+  }
+
+  private userInsights(
+    id: string,
+    params: Record<string, string>,
+    token: MockToken,
+  ) {
+    this.requireScope(token, "threads_manage_insights");
+    const user = this.store.users.get(id);
+    if (!user) {
+      throw notFound(id);
+    }
+    if (id !== token.userId) {
+      throw permissionDenied("Cannot read the insights of another user");
+    }
+    const metrics = (params.metric ?? "").split(",") as UserMetricName[];
+    const invalid = metrics.find((name) => !USER_METRICS.includes(name));
+    if (invalid !== undefined) {
+      throw invalidParameter(`Invalid metric: ${invalid}`);
+    }
+
+    const until = parseTime(params.until) ?? Date.now();
+    const since = parseTime(params.since) ?? until - DAY;
+    const posts = Array.from(this.store.media.values()).filter(
+      (media) =>
+        media.owner.id === id &&
+        parseTimestamp(media.timestamp) >= since &&
+        parseTimestamp(media.timestamp) < until,
+    );
+    const total = (name: MediaMetricName, from = since, to = until) =>
+      posts
+        .filter(
+          (media) =>
+            parseTimestamp(media.timestamp) >= from &&
+            parseTimestamp(media.timestamp) < to,
+        )
+        .reduce((sum, media) => sum + (media.insights[name] ?? 0), 0);
+
+    return {
+      data: metrics.map((name) => {
+        const base = {
+          name,
+          title: name,
+          description: "",
+          id: `${id}/insights/${name}/${name === "views" ? "day" : "lifetime"}`,
+        };
+        switch (name) {
+          case "views": {
+            const values = [];
+            for (let day = since; day < until; day += DAY) {
+              values.push({
+                value: total("views", day, Math.min(day + DAY, until)),
+                end_time: new Date(Math.min(day + DAY, until))
+                  .toISOString()
+                  .replace(/\.\d+Z$/, "+0000"),
+              });
+            }
+            return { ...base, period: "day", values };
+          }
+          case "followers_count":
+            return {
+              ...base,
+              period: "day",
+              total_value: { value: user.followersCount },
+            };
+          case "follower_demographics":
+            if (!params.breakdown) {
+              throw invalidParameter(
+                "follower_demographics requires a breakdown",
+              );
+            }
+            return {
+              ...base,
+              period: "lifetime",
+              total_value: {
+                value: 0,
+                breakdowns: [
+                  { dimension_keys: [params.breakdown], results: [] },
+                ],
+              },
+            };
+          case "clicks":
+            return {
+              ...base,
+              period: "day",
+              total_value: { value: 0, link_total_values: [] },
+            };
+          default:
+            return {
+              ...base,
+              period: "day",
+              total_value: { value: total(name) },
+            };
+        }
+      }),
+    };
+  }
+}
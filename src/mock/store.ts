@@ -0,0 +1,273 @@
+import { randomBytes } from "crypto";
+import type {
+  ContainerStatus,
+  HideStatus,
+  MediaMetricName,
+  Scope,
+  ThreadsMedia,
+  ThreadsMediaType,
+  ThreadsUser,
+} from "../index";
+
+/**
+ * A user of the mock API.
+ */
+export interface MockUser extends ThreadsUser {
+  scopes: Scope[];
+  followersCount: number;
+}
+
+/**
+ * A published post or reply kept by the mock API.
+ */
+export interface MockMedia
+  extends Omit<ThreadsMedia, "is_reply_owned_by_me" | "children"> {
+  children: string[];
+  insights: Partial<Record<MediaMetricName, number>>;
+}
+
+/**
+ * A media container kept by the mock API.
+ */
+export interface MockContainer {
+  id: string;
+  userId: string;
+  status: ContainerStatus;
+  errorMessage?: string;
+  /**
+   * Status checks left before an IN_PROGRESS container becomes FINISHED.
+   */
+  pendingPolls: number;
+  isCarouselItem: boolean;
+  params: Record<string, string>;
+  publishedId?: string;
+}
+
+/**
+ * An access token issued by the mock API.
+ */
+export interface MockToken {
+  userId: string;
+  scopes: Scope[];
+  issuedAt: number;
+  expiresAt: number;
+  longLived: boolean;
+}
+
+export const SHORT_LIVED_TOKEN_LIFETIME = 3600;
+export const LONG_LIVED_TOKEN_LIFETIME = 60 * 24 * 3600;
+
+const ALL_SCOPES: Scope[] = [
+  "threads_basic",
+  "threads_content_publish",
+  "threads_manage_insights",
+  "threads_manage_replies",
+  "threads_read_replies",
+  "threads_keyword_search",
+  "threads_manage_mentions",
+  "threads_delete",
+  "threads_profile_discovery",
+];
+
+/**
+ * Create a random numeric ID, like the ones the API uses
+ * @returns The ID
+ */
+function createId(): string {
+  return `1${parseInt(randomBytes(6).toString("hex"), 16)
+    .toString()
+    .padStart(16, "0")}`;
+}
+
+/**
+ * In-memory state of the mock API: users, tokens, containers and media.
+ */
+export class MockStore {
+  readonly users = new Map<string, MockUser>();
+
+  readonly tokens = new Map<string, MockToken>();
+
+  readonly authorizationCodes = new Map<string, string>();
+
+  readonly containers = new Map<string, MockContainer>();
+
+  readonly media = new Map<string, MockMedia>();
+
+  /**
+   * Add a user and issue a long-lived token for them
+   * @param username The username
+   * @param scopes The scopes granted to the token. Defaults to every scope.
+   * @param followersCount The number of followers. Defaults to 0.
+   * @returns The user and their access token
+   */
+  createUser({
+    username,
+    scopes = ALL_SCOPES,
+    followersCount = 0,
+    ...profile
+  }: {
+    username: string;
+    scopes?: Scope[];
+    followersCount?: number;
+  } & Partial<Omit<ThreadsUser, "username">>): {
+    user: MockUser;
+    accessToken: string;
+  } {
+    const user: MockUser = {
+      id: profile.id ?? createId(),
+      username,
+      name: profile.name ?? username,
+      threads_profile_picture_url: profile.threads_profile_picture_url ?? "",
+      threads_biography: profile.threads_biography ?? "",
+      is_verified: profile.is_verified ?? false,
+      profile_links: profile.profile_links ?? [],
+      scopes,
+      followersCount,
+    };
+    this.users.set(user.id, user);
+    return {
+      user,
+      accessToken: this.issueToken(user.id, true, scopes),
+    };
+  }
+
+  /**
+   * Issue an access token
+   * @param userId The user the token belongs to
+   * @param longLived Whether the token is long-lived
+   * @param scopes The scopes granted to the token, defaults to the user's scopes
+   * @returns The access token
+   */
+  issueToken(
+    userId: string,
+    longLived: boolean,
+    scopes: Scope[] = this.users.get(userId)?.scopes ?? ALL_SCOPES,
+  ): string {
+    const accessToken = `TH${randomBytes(24).toString("hex")}`;
+    const now = Math.floor(Date.now() / 1000);
+    this.tokens.set(accessToken, {
+      userId,
+      scopes,
+      issuedAt: now,
+      expiresAt:
+        now +
+        (longLived ? LONG_LIVED_TOKEN_LIFETIME : SHORT_LIVED_TOKEN_LIFETIME),
+      longLived,
+    });
+    return accessToken;
+  }
+
+  /**
+   * Issue an authorization code, as if the user had approved the app
+   * @param userId The user approving the app
+   * @returns The code to exchange with `getAccessToken`
+   */
+  createAuthorizationCode(userId: string): string {
+    const code = randomBytes(16).toString("hex");
+    this.authorizationCodes.set(code, userId);
+    return code;
+  }
+
+  /**
+   * Create a media container
+   * @param userId The owner of the container
+   * @param params The creation parameters
+   * @param pendingPolls Status checks reporting IN_PROGRESS before the container is FINISHED
+   * @returns The container
+   */
+  createContainer(
+    userId: string,
+    params: Record<string, string>,
+    pendingPolls: number,
+  ): MockContainer {
+    const container: MockContainer = {
+      id: createId(),
+      userId,
+      status: pendingPolls > 0 ? "IN_PROGRESS" : "FINISHED",
+      pendingPolls,
+      isCarouselItem: params.is_carousel_item === "true",
+      params,
+    };
+    this.containers.set(container.id, container);
+    return container;
+  }
+
+  /**
+   * Publish a post or reply directly, bypassing containers
+   * @param userId The author
+   * @param text The text of the post
+   * @param mediaType The type of media. Defaults to TEXT_POST.
+   * @param mediaUrl The URL of the image or video
+   * @param replyToId The post or reply this answers, if any
+   * @param children IDs of the carousel items
+   * @param timestamp When the post was published. Defaults to now.
+   * @returns The published media
+   */
+  createMedia({
+    userId,
+    text,
+    mediaType = "TEXT_POST",
+    mediaUrl,
+    replyToId,
+    children = [],
+    timestamp = new Date(),
+  }: {
+    userId: string;
+    text?: string;
+    mediaType?: ThreadsMediaType;
+    mediaUrl?: string;
+    replyToId?: string;
+    children?: string[];
+    timestamp?: Date;
+  }): MockMedia {
+    const user = this.users.get(userId);
+    if (!user) {
+      throw new Error(`Unknown mock user ${userId}`);
+    }
+    const parent = replyToId ? this.media.get(replyToId) : undefined;
+    if (replyToId && !parent) {
+      throw new Error(`Unknown mock media ${replyToId}`);
+    }
+    const id = createId();
+    const shortcode = randomBytes(8).toString("base64url");
+    const media: MockMedia = {
+      id,
+      media_product_type: "THREADS",
+      media_type: mediaType,
+      ...(mediaUrl && { media_url: mediaUrl }),
+      permalink: `https://www.threads.net/@${user.username}/post/${shortcode}`,
+      owner: { id: userId },
+      username: user.username,
+      ...(text !== undefined && { text }),
+      timestamp: timestamp.toISOString().replace(/\.\d+Z$/, "+0000"),
+      shortcode,
+      children,
+      is_quote_post: false,
+      has_replies: false,
+      is_reply: Boolean(parent),
+      ...(parent && {
+        replied_to: { id: parent.id },
+        root_post: parent.root_post ?? { id: parent.id },
+        hide_status: "NOT_HUSHED" as HideStatus,
+      }),
+      reply_audience: "EVERYONE",
+      insights: {},
+    };
+    if (parent) {
+      parent.has_replies = true;
+    }
+    this.media.set(id, media);
+    return media;
+  }
+
+  /**
+   * Remove every user, token, container and media object
+   */
+  clear(): void {
+    this.users.clear();
+    this.tokens.clear();
+    this.authorizationCodes.clear();
+    this.containers.clear();
+    this.media.clear();
+  }
+}
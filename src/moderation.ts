@@ -0,0 +1,336 @@
+import { EventEmitter } from "events";
+import type { RequestOptions, ThreadsAPI, ThreadsMediaObject } from "./index";
+
+/**
+ * Fields fetched for every reply that is moderated.
+ */
+export const MODERATION_FIELDS = [
+  "id",
+  "text",
+  "username",
+  "timestamp",
+  "permalink",
+  "link_attachment_url",
+  "replied_to",
+  "root_post",
+  "is_reply_owned_by_me",
+  "hide_status",
+] as const;
+
+export type ModeratedReply = ThreadsMediaObject<
+  (typeof MODERATION_FIELDS)[number]
+>;
+
+/**
+ * A condition that marks a reply for hiding.
+ */
+export interface ModerationRule {
+  name: string;
+  test(reply: ModeratedReply): boolean | Promise<boolean>;
+}
+
+export type ModerationAction = "hide" | "unhide" | "none" | "skip";
+
+/**
+ * What the moderator decided for a single reply, and whether it was applied.
+ */
+export interface ModerationDecision {
+  replyId: string;
+  username?: string;
+  text?: string;
+  action: ModerationAction;
+  /**
+   * Names of the rules the reply matched.
+   */
+  matchedRules: string[];
+  /**
+   * Why the reply was skipped or left alone, if not because of the rules.
+   */
+  reason?: string;
+  /**
+   * Whether hiding or unhiding was sent to the API. Always false in dry-run mode.
+   */
+  applied: boolean;
+  dryRun: boolean;
+  /**
+   * Error raised by a rule, or by the API while applying the decision.
+   */
+  error?: Error;
+  /**
+   * ISO 8601 time at which the decision was made.
+   */
+  decidedAt: string;
+}
+
+export interface ReplyModeratorOptions {
+  rules?: ModerationRule[];
+  /**
+   * Usernames whose replies are never hidden.
+   */
+  allowUsers?: string[];
+  /**
+   * Decide without hiding or unhiding anything. Defaults to false.
+   */
+  dryRun?: boolean;
+  /**
+   * Unhide hidden replies that no longer match any rule. Defaults to false.
+   */
+  unhide?: boolean;
+}
+
+// Hide statuses set by the platform rather than by the post owner
+const PLATFORM_HIDE_STATUSES = ["COVERED", "BLOCKED", "RESTRICTED"];
+
+const LINK_PATTERN = /\bhttps?:\/\/\S+|\bwww\.\S+\.\S+/i;
+
+/**
+ * Escape a string for use in a regular expression
+ * @param text The text to escape
+ * @returns The escaped text
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Match replies containing any of the given words or phrases
+ * @param keywords The words or phrases to look for
+ * @param caseSensitive Whether to match case. Defaults to false.
+ * @param name The rule name used in decisions
+ * @returns The rule
+ */
+export function keywordRule(
+  keywords: readonly string[],
+  { caseSensitive = false, name = "keywords" } = {},
+): ModerationRule {
+  const pattern = new RegExp(
+    `(^|\\W)(${keywords.map(escapeRegExp).join("|")})(?=\\W|$)`,
+    caseSensitive ? "u" : "iu",
+  );
+  return {
+    name,
+    test: (reply) => keywords.length > 0 && pattern.test(reply.text ?? ""),
+  };
+}
+
+/**
+ * Match replies whose text matches any of the given patterns
+ * @param patterns The regular expressions to test
+ * @param name The rule name used in decisions
+ * @returns The rule
+ */
+export function regexRule(
+  patterns: readonly RegExp[],
+  { name = "patterns" } = {},
+): ModerationRule {
+  return {
+    name,
+    test: (reply) =>
+      patterns.some((pattern) => {
+        // Global patterns keep state between calls
+        pattern.lastIndex = 0;
+        return pattern.test(reply.text ?? "");
+      }),
+  };
+}
+
+/**
+ * Match replies containing a link or a link attachment
+ * @param name The rule name used in decisions
+ * @returns The rule
+ */
+export function linkRule({ name = "links" } = {}): ModerationRule {
+  return {
+    name,
+    test: (reply) =>
+      Boolean(reply.link_attachment_url) || LINK_PATTERN.test(reply.text ?? ""),
+  };
+}
+
+/**
+ * Match replies from any of the given users
+ * @param usernames The usernames to hide replies from
+ * @param name The rule name used in decisions
+ * @returns The rule
+ */
+export function denyUsersRule(
+  usernames: readonly string[],
+  { name = "denied users" } = {},
+): ModerationRule {
+  const denied = new Set(usernames.map((username) => username.toLowerCase()));
+  return {
+    name,
+    test: (reply) => denied.has((reply.username ?? "").toLowerCase()),
+  };
+}
+
+export interface ReplyModerator {
+  on(event: "decision", listener: (decision: ModerationDecision) => void): this;
+  once(
+    event: "decision",
+    listener: (decision: ModerationDecision) => void,
+  ): this;
+}
+
+/**
+ * Hides replies matching a set of rules across a post's whole conversation.
+ * Every decision is appended to `auditLog` and emitted as a `decision` event.
+ */
+export class ReplyModerator extends EventEmitter {
+  /**
+   * Every decision made so far, oldest first.
+   */
+  readonly auditLog: ModerationDecision[] = [];
+
+  private api: ThreadsAPI;
+
+  private rules: ModerationRule[];
+
+  private allowUsers: Set<string>;
+
+  private dryRun: boolean;
+
+  private unhide: boolean;
+
+  constructor(api: ThreadsAPI, options: ReplyModeratorOptions = {}) {
+    super();
+    this.api = api;
+    this.rules = [...(options.rules ?? [])];
+    this.allowUsers = new Set(
+      (options.allowUsers ?? []).map((username) => username.toLowerCase()),
+    );
+    this.dryRun = options.dryRun ?? false;
+    this.unhide = options.unhide ?? false;
+  }
+
+  /**
+   * Add a rule
+   * @param rule The rule to add
+   * @returns The moderator, for chaining
+   */
+  addRule(rule: ModerationRule): this {
+    this.rules.push(rule);
+    return this;
+  }
+
+  /**
+   * Moderate every reply in a post's conversation, following all pages
+   * @param mediaId The ID of the post
+   * @param dryRun Overrides the moderator's dry-run setting for this run
+   * @param requestOptions Optional per-request settings, such as retry overrides
+   * @returns The decisions made in this run
+   */
+  async moderate(
+    mediaId: string,
+    { dryRun = this.dryRun }: { dryRun?: boolean } = {},
+    requestOptions?: RequestOptions,
+  ): Promise<ModerationDecision[]> {
+    const decisions: ModerationDecision[] = [];
+    for await (const reply of this.api.iterateConversation(
+      { mediaId, fields: MODERATION_FIELDS, reverse: false },
+      requestOptions,
+    )) {
+      decisions.push(await this.moderateReply(reply, dryRun, requestOptions));
+    }
+    return decisions;
+  }
+
+  /**
+   * Decide on a single reply and apply the decision
+   * @param reply The reply
+   * @param dryRun Whether to skip calling the API
+   * @param requestOptions Optional per-request settings
+   * @returns The decision
+   */
+  async moderateReply(
+    reply: ModeratedReply,
+    dryRun: boolean = this.dryRun,
+    requestOptions?: RequestOptions,
+  ): Promise<ModerationDecision> {
+    const decision = await this.decide(reply);
+    decision.dryRun = dryRun;
+
+    if (
+      !dryRun &&
+      (decision.action === "hide" || decision.action === "unhide")
+    ) {
+      try {
+        await this.api.hideReply(
+          { replyId: reply.id, hide: decision.action === "hide" },
+          requestOptions,
+        );
+        decision.applied = true;
+      } catch (error) {
+        decision.error =
+          error instanceof Error ? error : new Error(String(error));
+      }
+    }
+
+    this.auditLog.push(decision);
+    this.emit("decision", decision);
+    return decision;
+  }
+
+  /**
+   * Work out what to do with a reply without applying it
+   * @param reply The reply
+   * @returns The decision
+   */
+  private async decide(reply: ModeratedReply): Promise<ModerationDecision> {
+    const decision: ModerationDecision = {
+      replyId: reply.id,
+      username: reply.username,
+      text: reply.text,
+      action: "none",
+      matchedRules: [],
+      applied: false,
+      dryRun: false,
+      decidedAt: new Date().toISOString(),
+    };
+
+    if (reply.is_reply_owned_by_me) {
+      return { ...decision, action: "skip", reason: "Reply is your own" };
+    }
+    if (
+      reply.hide_status &&
+      PLATFORM_HIDE_STATUSES.includes(reply.hide_status)
+    ) {
+      return {
+        ...decision,
+        action: "skip",
+        reason: `Reply is ${reply.hide_status.toLowerCase()} by Threads`,
+      };
+    }
+    if (this.allowUsers.has((reply.username ?? "").toLowerCase())) {
+      decision.reason = "User is allowed";
+    } else {
+      for (const rule of this.rules) {
+        try {
+          if (await rule.test(reply)) {
+            decision.matchedRules.push(rule.name);
+          }
+        } catch (error) {
+          // Leave the reply alone rather than act on a partial verdict
+          return {
+            ...decision,
+            action: "skip",
+            reason: `Rule "${rule.name}" failed`,
+            error: error instanceof Error ? error : new Error(String(error)),
+          };
+        }
+      }
+    }
+
+    const hidden = reply.hide_status === "HIDDEN";
+    if (decision.matchedRules.length > 0) {
+      if (hidden) {
+        decision.reason = "Reply is already hidden";
+      } else {
+        decision.action = "hide";
+      }
+    } else if (hidden && this.unhide) {
+      decision.action = "unhide";
+    }
+    return decision;
+  }
+}
@@ -0,0 +1,105 @@
+import { randomBytes, timingSafeEqual } from "crypto";
+import { ThreadsOAuthError } from "./errors";
+import type { Scope } from "./index";
+
+export interface AuthorizationCallback {
+  code: string;
+  state?: string;
+}
+
+/**
+ * Generate a cryptographically random value for the OAuth `state` parameter
+ * @param bytes Number of random bytes, defaults to 32
+ * @returns The URL-safe state value
+ */
+export function generateState(bytes = 32): string {
+  return randomBytes(bytes)
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Compare the `state` returned to the redirect URI with the one that was sent, in constant time
+ * @param expected The state that was sent
+ * @param received The state returned to the redirect URI
+ * @returns Whether both states match
+ */
+export function verifyState(
+  expected: string,
+  received: string | undefined,
+): boolean {
+  if (!received) {
+    return false;
+  }
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Remove the `#_` Threads appends to authorization codes
+ * @param code The authorization code
+ * @returns The code without the trailing `#_`
+ */
+export function normalizeAuthorizationCode(code: string): string {
+  return code.replace(/#_?$/, "");
+}
+
+/**
+ * Read the authorization code and state from the URL Threads redirected the user to
+ * @param callbackUrl The full redirect URL, or just its query string
+ * @returns The authorization code and state
+ * @throws ThreadsOAuthError if the user denied access or the URL has no code
+ */
+export function parseCallbackUrl(
+  callbackUrl: string | URL,
+): AuthorizationCallback {
+  // A bare query string such as `code=...&state=...` would otherwise be read as a path
+  const isBareQuery =
+    typeof callbackUrl === "string" &&
+    !/^[a-z][a-z\d+.-]*:/i.test(callbackUrl) &&
+    !/^[/?]/.test(callbackUrl);
+  const url =
+    callbackUrl instanceof URL
+      ? callbackUrl
+      : new URL(
+          isBareQuery ? `?${callbackUrl}` : callbackUrl,
+          "https://localhost/",
+        );
+  const params = url.searchParams;
+  const state = params.get("state") ?? undefined;
+
+  const error = params.get("error");
+  if (error) {
+    const errorReason = params.get("error_reason") ?? undefined;
+    const errorDescription = params.get("error_description") ?? undefined;
+    throw new ThreadsOAuthError(errorDescription || error, {
+      error,
+      errorReason,
+      errorDescription,
+    });
+  }
+
+  const code = params.get("code");
+  if (!code) {
+    throw new ThreadsOAuthError("The callback URL has no authorization code", {
+      error: "missing_code",
+    });
+  }
+  return { code: normalizeAuthorizationCode(code), ...(state && { state }) };
+}
+
+/**
+ * Find the requested scopes that were not granted
+ * @param granted The scopes granted to the token
+ * @param required The scopes the app needs
+ * @returns The missing scopes, empty if every required scope was granted
+ */
+export function getMissingScopes(
+  granted: readonly string[],
+  required: readonly Scope[],
+): Scope[] {
+  return required.filter((scope) => !granted.includes(scope));
+}
@@ -0,0 +1,168 @@
+import { EventEmitter } from "events";
+
+/**
+ * Size and window of a publishing quota.
+ */
+export interface QuotaConfig {
+  quota_total: number;
+  /**
+   * Length of the rolling window in seconds.
+   */
+  quota_duration: number;
+}
+
+/**
+ * A user's publishing quota, as returned by `threads_publishing_limit`.
+ */
+export interface PublishingLimit {
+  /**
+   * Posts published in the current window.
+   */
+  quota_usage: number;
+  config: QuotaConfig;
+  /**
+   * Replies published in the current window.
+   */
+  reply_quota_usage: number;
+  reply_config: QuotaConfig;
+}
+
+export const PUBLISHING_LIMIT_FIELDS = [
+  "quota_usage",
+  "config",
+  "reply_quota_usage",
+  "reply_config",
+] as const;
+
+/**
+ * Percentages of the app-level call limits used, from the `X-App-Usage` header.
+ */
+export interface AppUsage {
+  call_count: number;
+  total_cputime: number;
+  total_time: number;
+}
+
+/**
+ * Usage of a business use case limit, from the `X-Business-Use-Case-Usage` header.
+ */
+export interface BusinessUseCaseUsage {
+  type: string;
+  call_count: number;
+  total_cputime: number;
+  total_time: number;
+  /**
+   * Minutes until calls are accepted again, once throttled.
+   */
+  estimated_time_to_regain_access?: number;
+}
+
+/**
+ * The most recent usage reported by the API.
+ */
+export interface RateLimitState {
+  appUsage?: AppUsage;
+  /**
+   * Usage keyed by the ID of the business object, such as the user.
+   */
+  businessUseCaseUsage?: Record<string, BusinessUseCaseUsage[]>;
+  /**
+   * Highest percentage across every reported usage, from 0 to 100.
+   */
+  maxUsage: number;
+  /**
+   * Unix timestamp in milliseconds at which the usage was reported.
+   */
+  updatedAt: number;
+}
+
+/**
+ * Parse a JSON header value
+ * @param value The header value
+ * @returns The parsed value, or undefined if missing or malformed
+ */
+function parseJsonHeader<T>(value: string | undefined): T | undefined {
+  if (!value) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read the usage headers of a response
+ * @param headers The response headers with lowercase names
+ * @param now The time the response was received, defaults to the current time
+ * @returns The reported usage, or undefined if the response carries no usage headers
+ */
+export function parseUsageHeaders(
+  headers: Record<string, string | undefined>,
+  now: number = Date.now(),
+): RateLimitState | undefined {
+  const appUsage = parseJsonHeader<AppUsage>(headers["x-app-usage"]);
+  const businessUseCaseUsage = parseJsonHeader<
+    Record<string, BusinessUseCaseUsage[]>
+  >(headers["x-business-use-case-usage"]);
+  if (!appUsage && !businessUseCaseUsage) {
+    return undefined;
+  }
+
+  const usages: (AppUsage | BusinessUseCaseUsage)[] = appUsage
+    ? [appUsage]
+    : [];
+  Object.keys(businessUseCaseUsage ?? {}).forEach((id) => {
+    usages.push(...(businessUseCaseUsage?.[id] ?? []));
+  });
+  const maxUsage = Math.max(
+    0,
+    ...usages.map((usage) =>
+      Math.max(
+        usage.call_count ?? 0,
+        usage.total_cputime ?? 0,
+        usage.total_time ?? 0,
+      ),
+    ),
+  );
+
+  return {
+    ...(appUsage && { appUsage }),
+    ...(businessUseCaseUsage && { businessUseCaseUsage }),
+    maxUsage,
+    updatedAt: now,
+  };
+}
+
+export interface RateLimitTracker {
+  on(event: "update", listener: (state: RateLimitState) => void): this;
+  once(event: "update", listener: (state: RateLimitState) => void): this;
+}
+
+/**
+ * Keeps the usage reported by the latest API response that carried usage headers.
+ * Emits `update` with the new state whenever such a response is received.
+ */
+export class RateLimitTracker extends EventEmitter {
+  private current?: RateLimitState;
+
+  /**
+   * The latest reported usage, or undefined until a response carried usage headers.
+   */
+  get state(): RateLimitState | undefined {
+    return this.current;
+  }
+
+  /**
+   * Record the usage headers of a response
+   * @param headers The response headers with lowercase names
+   */
+  update(headers: Record<string, string | undefined>): void {
+    const state = parseUsageHeaders(headers);
+    if (state) {
+      this.current = state;
+      this.emit("update", state);
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import {
+  ThreadsAPIError,
+  ThreadsNetworkError,
+  ThreadsRateLimitError,
+  ThreadsServerError,
+} from "./errors";
+
+export interface RetryOptions {
+  /**
+   * Maximum number of retries after the first attempt. Set to 0 to disable retries.
+   */
+  retries?: number;
+  /**
+   * Delay in milliseconds before the first retry.
+   */
+  baseDelay?: number;
+  /**
+   * Upper bound in milliseconds for a single backoff delay, including delays
+   * requested by a `Retry-After` header.
+   */
+  maxDelay?: number;
+  /**
+   * Multiplier applied to the delay after every attempt.
+   */
+  factor?: number;
+  /**
+   * Whether to randomize delays so concurrent clients do not retry in lockstep.
+   */
+  jitter?: boolean;
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  retries: 3,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  factor: 2,
+  jitter: true,
+};
+
+// Error codes of connections that failed before the request reached the server
+const CONNECTION_ERROR_CODES = ["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN"];
+
+/**
+ * Whether a request failed before it reached the server
+ * @param error The error raised by the request
+ * @returns True if the error or one of its causes is a failed connection
+ */
+function isConnectionError(error: unknown): boolean {
+  let current = error as { code?: unknown; cause?: unknown } | undefined;
+  for (let depth = 0; current && depth < 5; depth += 1) {
+    if (CONNECTION_ERROR_CODES.includes(current.code as string)) {
+      return true;
+    }
+    current = current.cause as typeof current;
+  }
+  return false;
+}
+
+/**
+ * Decide whether a failed request may be retried
+ * @param error The error raised by the request
+ * @param idempotent Whether repeating the request is free of side effects
+ * @returns Whether the request should be retried
+ * @note Non-idempotent requests are only retried when the connection failed
+ * before the request reached the server. Any other error, even a rate limit,
+ * could have been raised after the request took effect, so retrying it could
+ * e.g. publish a post twice.
+ */
+export function isRetryableError(error: unknown, idempotent: boolean): boolean {
+  if (!idempotent) {
+    return error instanceof ThreadsNetworkError && isConnectionError(error);
+  }
+  return (
+    error instanceof ThreadsRateLimitError ||
+    error instanceof ThreadsNetworkError ||
+    error instanceof ThreadsServerError ||
+    (error instanceof ThreadsAPIError && error.isTransient === true)
+  );
+}
+
+/**
+ * Compute how long to wait before the next attempt
+ * @param attempt The number of retries already made, starting at 0
+ * @param error The error raised by the last attempt
+ * @param options The retry options
+ * @returns The delay in milliseconds
+ */
+export function getRetryDelay(
+  attempt: number,
+  error: unknown,
+  options: Required<RetryOptions>,
+): number {
+  if (error instanceof ThreadsAPIError && error.retryAfter !== undefined) {
+    return Math.min(options.maxDelay, error.retryAfter * 1000);
+  }
+  const delay = Math.min(
+    options.maxDelay,
+    options.baseDelay * options.factor ** attempt,
+  );
+  return options.jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+}
+
+/**
+ * Wait for the given number of milliseconds
+ * @param ms The delay in milliseconds
+ * @param signal Optional signal that rejects the wait when aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Get the error to throw for an aborted signal
+ * @param signal The aborted signal
+ * @returns The abort reason, or a generic AbortError if none was given
+ */
+export function abortReason(signal: AbortSignal): Error {
+  if (signal.reason instanceof Error) {
+    return signal.reason;
+  }
+  const error = new Error("The operation was aborted");
+  error.name = "AbortError";
+  return error;
+}
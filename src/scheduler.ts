@@ -0,0 +1,651 @@
+import { randomBytes } from "crypto";
+import { EventEmitter } from "events";
+import { promises as fs } from "fs";
+import { ThreadsContainerError, ThreadsContainerTimeoutError } from "./errors";
+import {
+  DEFAULT_RETRY_OPTIONS,
+  getRetryDelay,
+  isRetryableError,
+} from "./retry";
+import { assertValid, validatePost } from "./validation";
+import { mapSettled } from "./concurrency";
+import type {
+  PostInput,
+  RequestOptions,
+  ThreadsAPI,
+  WaitForContainerOptions,
+} from "./index";
+
+// Unpublished media containers expire 24 hours after they were created
+const CONTAINER_LIFETIME = 24 * 3600 * 1000;
+const DEFAULT_INTERVAL = 30 * 1000;
+const DEFAULT_LEAD_TIME = 5 * 60 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY = 60 * 1000;
+
+/**
+ * - `pending`: waiting for its publish time. `creationId` is set once the container is ready.
+ * - `creating`: the media container is being created and processed.
+ * - `publishing`: the container is being published.
+ * - `published`: the post is live.
+ * - `failed`: every attempt failed, see `error`.
+ * - `cancelled`: cancelled before it was published.
+ */
+export type ScheduledJobStatus =
+  | "pending"
+  | "creating"
+  | "publishing"
+  | "published"
+  | "failed"
+  | "cancelled";
+
+/**
+ * A post scheduled for publishing, as persisted in a JobStore.
+ */
+export interface ScheduledJob {
+  id: string;
+  userId: string;
+  post: PostInput;
+  /**
+   * Unix timestamp in milliseconds at which the post is published.
+   */
+  publishAt: number;
+  status: ScheduledJobStatus;
+  /**
+   * Number of failed attempts so far.
+   */
+  attempts: number;
+  /**
+   * Unix timestamp in milliseconds before which a failed attempt is not retried.
+   */
+  retryAt?: number;
+  /**
+   * ID of the media container, once created.
+   */
+  creationId?: string;
+  /**
+   * Unix timestamp in milliseconds at which the container was created.
+   */
+  containerCreatedAt?: number;
+  /**
+   * ID of the published post. Missing when a post published by an interrupted
+   * attempt was only detected afterwards through its container status.
+   */
+  publishedId?: string;
+  /**
+   * Message of the last error.
+   */
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Persistence for scheduled jobs, keyed by job ID.
+ */
+export interface JobStore {
+  get(id: string): Promise<ScheduledJob | undefined>;
+  set(job: ScheduledJob): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<ScheduledJob[]>;
+}
+
+/**
+ * Keeps jobs in memory. Jobs are lost when the process exits.
+ */
+export class InMemoryJobStore implements JobStore {
+  private jobs = new Map<string, ScheduledJob>();
+
+  async get(id: string): Promise<ScheduledJob | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async set(job: ScheduledJob): Promise<void> {
+    this.jobs.set(job.id, job);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.jobs.delete(id);
+  }
+
+  async list(): Promise<ScheduledJob[]> {
+    return Array.from(this.jobs.values());
+  }
+}
+
+/**
+ * Keeps jobs in a JSON file, keyed by job ID.
+ */
+export class FileJobStore implements JobStore {
+  private filePath: string;
+
+  // Serializes writes so concurrent updates do not overwrite each other
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async get(id: string): Promise<ScheduledJob | undefined> {
+    await this.queue;
+    const jobs = await this.read();
+    return jobs[id];
+  }
+
+  async set(job: ScheduledJob): Promise<void> {
+    await this.update((jobs) => ({ ...jobs, [job.id]: job }));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.update((jobs) => {
+      const { [id]: _removed, ...remaining } = jobs;
+      return remaining;
+    });
+  }
+
+  async list(): Promise<ScheduledJob[]> {
+    await this.queue;
+    const jobs = await this.read();
+    return Object.keys(jobs).map((id) => jobs[id]);
+  }
+
+  private update(
+    change: (
+      jobs: Record<string, ScheduledJob>,
+    ) => Record<string, ScheduledJob>,
+  ): Promise<void> {
+    const task = this.queue.then(async () => {
+      const jobs = change(await this.read());
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(jobs, null, 2));
+      await fs.rename(tempPath, this.filePath);
+    });
+    this.queue = task.catch(() => undefined);
+    return task;
+  }
+
+  private async read(): Promise<Record<string, ScheduledJob>> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return {};
+      }
+      throw error;
+    }
+  }
+}
+
+export interface PublishSchedulerOptions {
+  /**
+   * Where jobs are persisted. Defaults to an InMemoryJobStore.
+   */
+  store?: JobStore;
+  /**
+   * Milliseconds between two checks for due jobs. Defaults to 30 seconds.
+   */
+  interval?: number;
+  /**
+   * Milliseconds before the publish time at which the media container is
+   * created, leaving time for videos to process. Defaults to 5 minutes.
+   */
+  leadTime?: number;
+  /**
+   * Attempts made before a job fails. Defaults to 3.
+   */
+  maxAttempts?: number;
+  /**
+   * Milliseconds before retrying a failed attempt, doubled after every attempt. Defaults to 1 minute.
+   */
+  retryDelay?: number;
+  /**
+   * Number of jobs processed at once. Defaults to 1.
+   */
+  concurrency?: number;
+  /**
+   * Poll interval and timeout used while waiting for containers to finish processing.
+   */
+  containerWait?: Omit<WaitForContainerOptions, "signal">;
+  /**
+   * Per-request settings used for every API call, such as retry overrides.
+   */
+  requestOptions?: RequestOptions;
+}
+
+export interface PublishScheduler {
+  on(event: "update", listener: (job: ScheduledJob) => void): this;
+  on(event: "published", listener: (job: ScheduledJob) => void): this;
+  on(
+    event: "failed",
+    listener: (job: ScheduledJob, error: Error) => void,
+  ): this;
+  on(event: "workerError", listener: (error: Error) => void): this;
+  once(event: "update", listener: (job: ScheduledJob) => void): this;
+  once(event: "published", listener: (job: ScheduledJob) => void): this;
+  once(
+    event: "failed",
+    listener: (job: ScheduledJob, error: Error) => void,
+  ): this;
+  once(event: "workerError", listener: (error: Error) => void): this;
+}
+
+/**
+ * Publishes posts at a later time. Jobs are persisted in a JobStore so a
+ * restarted worker picks up where the previous one stopped. The media
+ * container of a job is created `leadTime` before its publish time, since
+ * containers expire if left unpublished.
+ * Emits `update` whenever a job changes, `published` and `failed` when a job
+ * ends, and `workerError` when the worker loop could not reach the store.
+ */
+export class PublishScheduler extends EventEmitter {
+  private api: ThreadsAPI;
+
+  private store: JobStore;
+
+  private interval: number;
+
+  private leadTime: number;
+
+  private maxAttempts: number;
+
+  private retryDelay: number;
+
+  private concurrency: number;
+
+  private containerWait: Omit<WaitForContainerOptions, "signal">;
+
+  private requestOptions?: RequestOptions;
+
+  // IDs of the jobs being processed, which cannot be cancelled or rescheduled
+  private active = new Set<string>();
+
+  private running?: Promise<ScheduledJob[]>;
+
+  private timer?: ReturnType<typeof setTimeout>;
+
+  private controller?: AbortController;
+
+  constructor(api: ThreadsAPI, options: PublishSchedulerOptions = {}) {
+    super();
+    this.api = api;
+    this.store = options.store ?? new InMemoryJobStore();
+    this.interval = options.interval ?? DEFAULT_INTERVAL;
+    this.leadTime = options.leadTime ?? DEFAULT_LEAD_TIME;
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+    this.concurrency = options.concurrency ?? 1;
+    this.containerWait = options.containerWait ?? {};
+    this.requestOptions = options.requestOptions;
+  }
+
+  /**
+   * Schedule a post
+   * @param userId The user ID
+   * @param post The content of the post
+   * @param publishAt When to publish the post
+   * @param id Optional job ID. Scheduling the same ID again returns the existing job instead of adding a duplicate.
+   * @returns The job
+   * @throws ThreadsPostValidationError if the post breaks the documented limits
+   */
+  async schedule({
+    userId,
+    post,
+    publishAt,
+    id,
+  }: {
+    userId: string;
+    post: PostInput;
+    publishAt: Date | number;
+    id?: string;
+  }): Promise<ScheduledJob> {
+    if (id) {
+      const existing = await this.store.get(id);
+      if (existing) {
+        return existing;
+      }
+    }
+    assertValid(validatePost(post));
+    const now = Date.now();
+    const job: ScheduledJob = {
+      id: id ?? randomBytes(12).toString("hex"),
+      userId,
+      post,
+      publishAt: new Date(publishAt).getTime(),
+      status: "pending",
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.store.set(job);
+    this.emit("update", job);
+    return job;
+  }
+
+  /**
+   * Load a job
+   * @param id The job ID
+   * @returns The job, if any
+   */
+  async get(id: string): Promise<ScheduledJob | undefined> {
+    return this.store.get(id);
+  }
+
+  /**
+   * List jobs ordered by publish time
+   * @param status Only list jobs in this state
+   * @returns The jobs
+   */
+  async list(status?: ScheduledJobStatus): Promise<ScheduledJob[]> {
+    const jobs = await this.store.list();
+    return jobs
+      .filter((job) => !status || job.status === status)
+      .sort((a, b) => a.publishAt - b.publishAt);
+  }
+
+  /**
+   * Cancel a pending or failed job
+   * @param id The job ID
+   * @returns The cancelled job
+   * @throws Error if the job does not exist, is being published or has already been published
+   */
+  async cancel(id: string): Promise<ScheduledJob> {
+    const job = await this.getChangeableJob(id, "cancelled");
+    return this.update(job, { status: "cancelled", retryAt: undefined });
+  }
+
+  /**
+   * Move a pending, failed or cancelled job to a new publish time. Failed and
+   * cancelled jobs are queued again with their attempts reset.
+   * @param id The job ID
+   * @param publishAt The new publish time
+   * @returns The rescheduled job
+   * @throws Error if the job does not exist, is being published or has already been published
+   */
+  async reschedule(
+    id: string,
+    publishAt: Date | number,
+  ): Promise<ScheduledJob> {
+    const job = await this.getChangeableJob(id, "rescheduled");
+    const time = new Date(publishAt).getTime();
+    const containerExpires =
+      job.containerCreatedAt !== undefined &&
+      job.containerCreatedAt + CONTAINER_LIFETIME <= time;
+    return this.update(job, {
+      status: "pending",
+      publishAt: time,
+      attempts: 0,
+      retryAt: undefined,
+      error: undefined,
+      ...(containerExpires && {
+        creationId: undefined,
+        containerCreatedAt: undefined,
+      }),
+    });
+  }
+
+  /**
+   * Start checking for due jobs every `interval` milliseconds
+   */
+  start(): void {
+    if (this.controller) {
+      return;
+    }
+    const controller = new AbortController();
+    this.controller = controller;
+    const loop = async () => {
+      try {
+        await this.runDueJobs();
+      } catch (error) {
+        this.emit("workerError", error);
+      }
+      if (this.controller === controller) {
+        this.timer = setTimeout(loop, this.interval);
+      }
+    };
+    loop();
+  }
+
+  /**
+   * Stop the worker loop. Waiting for containers is abandoned and the affected
+   * jobs are picked up again on the next start.
+   */
+  async stop(): Promise<void> {
+    const { controller } = this;
+    this.controller = undefined;
+    clearTimeout(this.timer);
+    controller?.abort();
+    await this.running?.catch(() => undefined);
+  }
+
+  /**
+   * Process every job that is due now. Called by the worker loop; call it
+   * directly to drive the scheduler from an external cron instead.
+   * @returns The processed jobs in their new state
+   */
+  runDueJobs(): Promise<ScheduledJob[]> {
+    if (!this.running) {
+      this.running = this.processDueJobs().finally(() => {
+        this.running = undefined;
+      });
+    }
+    return this.running;
+  }
+
+  private async processDueJobs(): Promise<ScheduledJob[]> {
+    const now = Date.now();
+    const due = (await this.list()).filter(
+      (job) => !this.active.has(job.id) && this.isDue(job, now),
+    );
+    const results = await mapSettled(due, this.concurrency, (job) =>
+      this.process(job),
+    );
+    return results.reduce<ScheduledJob[]>((jobs, result) => {
+      if (!result.ok) {
+        throw result.error;
+      }
+      return [...jobs, result.value];
+    }, []);
+  }
+
+  /**
+   * Whether a job should be processed now
+   * @param job The job
+   * @param now The current time
+   * @returns True for pending jobs whose container or publish time has come,
+   * and for jobs left creating or publishing by an interrupted worker
+   */
+  private isDue(job: ScheduledJob, now: number): boolean {
+    if (job.status === "creating" || job.status === "publishing") {
+      return true;
+    }
+    if (job.status !== "pending" || (job.retryAt ?? 0) > now) {
+      return false;
+    }
+    return job.creationId && !this.isContainerStale(job, now)
+      ? job.publishAt <= now
+      : job.publishAt - this.leadTime <= now;
+  }
+
+  /**
+   * Whether a job's container is too old to be published at the job's publish time
+   * @param job The job
+   * @param now The current time
+   * @returns True if the container expires before it would be published
+   */
+  private isContainerStale(job: ScheduledJob, now: number): boolean {
+    return (
+      (job.containerCreatedAt ?? 0) + CONTAINER_LIFETIME <=
+      Math.max(now, job.publishAt)
+    );
+  }
+
+  /**
+   * Create the container of a job if needed, wait for it and publish it once
+   * the publish time has come
+   * @param job The job
+   * @returns The job in its new state
+   */
+  private async process(job: ScheduledJob): Promise<ScheduledJob> {
+    const signal = this.controller?.signal;
+    const waitOptions = { ...this.containerWait, signal };
+    let current = job;
+    this.active.add(job.id);
+    try {
+      let { creationId } = current;
+      if (!creationId || this.isContainerStale(current, Date.now())) {
+        current = await this.update(current, {
+          status: "creating",
+          creationId: undefined,
+          containerCreatedAt: undefined,
+        });
+        creationId = await this.api.createPostContainer(
+          { userId: current.userId, post: current.post, options: waitOptions },
+          this.requestOptions,
+        );
+        // Saved right away so an interrupted worker does not create a second container
+        current = await this.update(current, {
+          creationId,
+          containerCreatedAt: Date.now(),
+        });
+      }
+
+      const { status } = await this.api.waitForContainer(
+        creationId,
+        waitOptions,
+        this.requestOptions,
+      );
+      if (status === "PUBLISHED") {
+        // Published by an attempt that was interrupted before saving the result
+        return await this.complete(current, undefined);
+      }
+      if (Date.now() < current.publishAt) {
+        return await this.update(current, { status: "pending" });
+      }
+
+      current = await this.update(current, { status: "publishing" });
+      const publishedId = await this.api.publishMediaContainer(
+        { userId: current.userId, creationId },
+        this.requestOptions,
+      );
+      return await this.complete(current, publishedId);
+    } catch (error) {
+      return await this.fail(current, error, signal);
+    } finally {
+      this.active.delete(job.id);
+    }
+  }
+
+  private async complete(
+    job: ScheduledJob,
+    publishedId: string | undefined,
+  ): Promise<ScheduledJob> {
+    const published = await this.update(job, {
+      status: "published",
+      publishedId,
+      retryAt: undefined,
+      error: undefined,
+    });
+    this.emit("published", published);
+    return published;
+  }
+
+  /**
+   * Record a failed attempt, queueing a retry when the error is transient
+   * @param job The job
+   * @param error The error raised by the attempt
+   * @param signal The signal of the worker loop
+   * @returns The job in its new state
+   */
+  private async fail(
+    job: ScheduledJob,
+    error: unknown,
+    signal: AbortSignal | undefined,
+  ): Promise<ScheduledJob> {
+    if (signal?.aborted) {
+      // Stopped by `stop`, which is not a failure of the job
+      return this.update(job, { status: "pending" });
+    }
+
+    const reason = error instanceof Error ? error : new Error(String(error));
+    const expired =
+      error instanceof ThreadsContainerError &&
+      error.containerStatus === "EXPIRED";
+    const attempts = job.attempts + 1;
+    const retryable =
+      expired ||
+      error instanceof ThreadsContainerTimeoutError ||
+      isRetryableError(error, true);
+
+    if (retryable && attempts < this.maxAttempts) {
+      return this.update(job, {
+        status: "pending",
+        attempts,
+        retryAt:
+          Date.now() +
+          getRetryDelay(attempts - 1, error, {
+            ...DEFAULT_RETRY_OPTIONS,
+            baseDelay: this.retryDelay,
+            maxDelay: Infinity,
+            jitter: false,
+          }),
+        error: reason.message,
+        ...(expired && {
+          creationId: undefined,
+          containerCreatedAt: undefined,
+        }),
+      });
+    }
+
+    const failed = await this.update(job, {
+      status: "failed",
+      attempts,
+      retryAt: undefined,
+      error: reason.message,
+    });
+    this.emit("failed", failed, reason);
+    return failed;
+  }
+
+  /**
+   * Load a job that may still be cancelled or rescheduled
+   * @param id The job ID
+   * @param action The change, used in error messages
+   * @returns The job
+   */
+  private async getChangeableJob(
+    id: string,
+    action: string,
+  ): Promise<ScheduledJob> {
+    const job = await this.store.get(id);
+    if (!job) {
+      throw new Error(`No scheduled job with ID "${id}"`);
+    }
+    if (
+      this.active.has(id) ||
+      job.status === "creating" ||
+      job.status === "publishing" ||
+      job.status === "published"
+    ) {
+      throw new Error(
+        `Job "${id}" is ${
+          this.active.has(id) ? "being processed" : job.status
+        } and can no longer be ${action}`,
+      );
+    }
+    return job;
+  }
+
+  private async update(
+    job: ScheduledJob,
+    changes: Partial<ScheduledJob>,
+  ): Promise<ScheduledJob> {
+    const updated: ScheduledJob = {
+      ...job,
+      ...changes,
+      updatedAt: Date.now(),
+    };
+    await this.store.set(updated);
+    this.emit("update", updated);
+    return updated;
+  }
+}
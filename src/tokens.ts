@@ -0,0 +1,348 @@
+import { EventEmitter } from "events";
+import { promises as fs } from "fs";
+import type { ThreadsAPI, TokenResponse } from "./index";
+
+/**
+ * Key under which the token of a single-account client is stored.
+ */
+export const DEFAULT_TOKEN_KEY = "default";
+
+// Short-lived tokens are valid for one hour when the response omits expires_in
+const SHORT_LIVED_TOKEN_LIFETIME = 3600;
+// Long-lived tokens can only be refreshed once they are at least 24 hours old
+const MIN_REFRESH_AGE = 24 * 3600 * 1000;
+// Refresh long-lived tokens when less than a week is left
+const DEFAULT_REFRESH_WINDOW = 7 * 24 * 3600;
+// Wait before trying again after a failed refresh, while the token still works
+const REFRESH_RETRY_DELAY = 5 * 60 * 1000;
+
+/**
+ * An access token together with the absolute times it was issued and expires at.
+ */
+export interface StoredToken {
+  accessToken: string;
+  tokenType: string;
+  /**
+   * Unix timestamp in milliseconds at which the token was issued.
+   */
+  issuedAt: number;
+  /**
+   * Unix timestamp in milliseconds at which the token expires.
+   */
+  expiresAt: number;
+  longLived: boolean;
+  userId?: string;
+}
+
+/**
+ * Persistence for access tokens, keyed by account.
+ */
+export interface TokenStore {
+  get(key: string): Promise<StoredToken | undefined>;
+  set(key: string, token: StoredToken): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Keeps tokens in memory. Tokens are lost when the process exits.
+ */
+export class InMemoryTokenStore implements TokenStore {
+  private tokens = new Map<string, StoredToken>();
+
+  async get(key: string): Promise<StoredToken | undefined> {
+    return this.tokens.get(key);
+  }
+
+  async set(key: string, token: StoredToken): Promise<void> {
+    this.tokens.set(key, token);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.tokens.delete(key);
+  }
+}
+
+/**
+ * Keeps tokens in a JSON file, keyed by account.
+ */
+export class FileTokenStore implements TokenStore {
+  private filePath: string;
+
+  // Serializes writes so concurrent updates do not overwrite each other
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async get(key: string): Promise<StoredToken | undefined> {
+    await this.queue;
+    const tokens = await this.read();
+    return tokens[key];
+  }
+
+  async set(key: string, token: StoredToken): Promise<void> {
+    await this.update((tokens) => ({ ...tokens, [key]: token }));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.update((tokens) => {
+      const { [key]: _removed, ...remaining } = tokens;
+      return remaining;
+    });
+  }
+
+  private update(
+    change: (
+      tokens: Record<string, StoredToken>,
+    ) => Record<string, StoredToken>,
+  ): Promise<void> {
+    const task = this.queue.then(async () => {
+      const tokens = change(await this.read());
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(tokens, null, 2), {
+        mode: 0o600,
+      });
+      await fs.rename(tempPath, this.filePath);
+    });
+    this.queue = task.catch(() => undefined);
+    return task;
+  }
+
+  private async read(): Promise<Record<string, StoredToken>> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return {};
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Convert a token response into a token with absolute issue and expiry times
+ * @param response The token response from the API
+ * @param longLived Whether the token is a long-lived token
+ * @param now The time the token was issued, defaults to the current time
+ * @returns The token to store
+ */
+export function toStoredToken(
+  response: TokenResponse,
+  longLived: boolean,
+  now: number = Date.now(),
+): StoredToken {
+  const expiresIn = response.expires_in ?? SHORT_LIVED_TOKEN_LIFETIME;
+  return {
+    accessToken: response.access_token,
+    tokenType: response.token_type ?? "Bearer",
+    issuedAt: now,
+    expiresAt: now + expiresIn * 1000,
+    longLived,
+    ...(response.user_id !== undefined && {
+      userId: String(response.user_id),
+    }),
+  };
+}
+
+export interface TokenManagerOptions {
+  /**
+   * Where tokens are persisted. Defaults to an InMemoryTokenStore.
+   */
+  store?: TokenStore;
+  /**
+   * Seconds before expiry at which long-lived tokens are refreshed. Defaults to 7 days.
+   */
+  refreshWindow?: number;
+}
+
+export interface TokenManager {
+  on(
+    event: "refresh",
+    listener: (token: StoredToken, key: string) => void,
+  ): this;
+  on(
+    event: "refreshError",
+    listener: (error: Error, key: string) => void,
+  ): this;
+  once(
+    event: "refresh",
+    listener: (token: StoredToken, key: string) => void,
+  ): this;
+  once(
+    event: "refreshError",
+    listener: (error: Error, key: string) => void,
+  ): this;
+}
+
+/**
+ * Stores access tokens and keeps them fresh.
+ * Emits `refresh` after a token was refreshed and `refreshError` when refreshing failed.
+ */
+export class TokenManager extends EventEmitter {
+  private api: ThreadsAPI;
+
+  private store: TokenStore;
+
+  private refreshWindow: number;
+
+  private pendingRefreshes = new Map<string, Promise<StoredToken>>();
+
+  // Time of the last failed refresh of each key
+  private failedRefreshes = new Map<string, number>();
+
+  constructor(api: ThreadsAPI, options: TokenManagerOptions = {}) {
+    super();
+    this.api = api;
+    this.store = options.store ?? new InMemoryTokenStore();
+    this.refreshWindow = options.refreshWindow ?? DEFAULT_REFRESH_WINDOW;
+  }
+
+  /**
+   * Store a token, exchanging it for a long-lived token first if needed
+   * @param response The token response from the API
+   * @param longLived Whether the token is already long-lived. Defaults to false.
+   * @param key The account the token belongs to
+   * @returns The stored token
+   */
+  async save(
+    response: TokenResponse,
+    {
+      longLived = false,
+      key = DEFAULT_TOKEN_KEY,
+    }: { longLived?: boolean; key?: string } = {},
+  ): Promise<StoredToken> {
+    let token = toStoredToken(response, longLived);
+    if (!longLived) {
+      const exchanged = await this.api.getLongLivedToken(token.accessToken);
+      token = {
+        ...toStoredToken(exchanged, true),
+        ...(token.userId && { userId: token.userId }),
+      };
+    }
+    await this.store.set(key, token);
+    return token;
+  }
+
+  /**
+   * Load a stored token without refreshing it
+   * @param key The account the token belongs to
+   * @returns The stored token, if any
+   */
+  async get(key: string = DEFAULT_TOKEN_KEY): Promise<StoredToken | undefined> {
+    return this.store.get(key);
+  }
+
+  /**
+   * Remove a stored token
+   * @param key The account the token belongs to
+   */
+  async delete(key: string = DEFAULT_TOKEN_KEY): Promise<void> {
+    await this.store.delete(key);
+  }
+
+  /**
+   * Get a valid access token, refreshing it first when it is about to expire
+   * @param key The account the token belongs to
+   * @returns The access token, or undefined if none is stored
+   */
+  async getAccessToken(
+    key: string = DEFAULT_TOKEN_KEY,
+  ): Promise<string | undefined> {
+    const token = await this.store.get(key);
+    if (!token) {
+      return undefined;
+    }
+    if (!this.needsRefresh(token) || this.isBackingOff(key, token)) {
+      return token.accessToken;
+    }
+
+    try {
+      const refreshed = await this.refresh(key, token);
+      return refreshed.accessToken;
+    } catch (error) {
+      // The current token still works until it expires
+      if (Date.now() < token.expiresAt) {
+        return token.accessToken;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Refresh a stored long-lived token now
+   * @param key The account the token belongs to
+   * @param token The token to refresh, loaded from the store if omitted
+   * @returns The refreshed token
+   */
+  async refresh(
+    key: string = DEFAULT_TOKEN_KEY,
+    token?: StoredToken,
+  ): Promise<StoredToken> {
+    const pending = this.pendingRefreshes.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const refresh = (async () => {
+      const current = token ?? (await this.store.get(key));
+      if (!current) {
+        throw new Error(`No token stored for "${key}"`);
+      }
+      const response = await this.api.refreshLongLivedToken(
+        current.accessToken,
+      );
+      const refreshed: StoredToken = {
+        ...toStoredToken(response, true),
+        ...(current.userId && { userId: current.userId }),
+      };
+      await this.store.set(key, refreshed);
+      return refreshed;
+    })();
+    this.pendingRefreshes.set(key, refresh);
+
+    try {
+      const refreshed = await refresh;
+      this.failedRefreshes.delete(key);
+      this.emit("refresh", refreshed, key);
+      return refreshed;
+    } catch (error) {
+      this.failedRefreshes.set(key, Date.now());
+      this.emit("refreshError", error, key);
+      throw error;
+    } finally {
+      this.pendingRefreshes.delete(key);
+    }
+  }
+
+  /**
+   * Whether refreshing a token failed too recently to try again
+   * @param key The account the token belongs to
+   * @param token The token
+   * @returns True while the token still works and the last failure is less than 5 minutes old
+   */
+  private isBackingOff(key: string, token: StoredToken): boolean {
+    const failedAt = this.failedRefreshes.get(key);
+    const now = Date.now();
+    return (
+      failedAt !== undefined &&
+      now - failedAt < REFRESH_RETRY_DELAY &&
+      now < token.expiresAt
+    );
+  }
+
+  /**
+   * Whether a token should be refreshed before its next use
+   * @param token The token to check
+   * @returns True for long-lived tokens inside the refresh window that are old enough to be refreshed
+   */
+  private needsRefresh(token: StoredToken): boolean {
+    const now = Date.now();
+    return (
+      token.longLived &&
+      now >= token.expiresAt - this.refreshWindow * 1000 &&
+      now - token.issuedAt >= MIN_REFRESH_AGE
+    );
+  }
+}
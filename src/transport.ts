@@ -0,0 +1,216 @@
+import type { Agent as HttpAgent } from "http";
+import type { Agent as HttpsAgent } from "https";
+import type { AxiosInstance, AxiosProxyConfig } from "axios";
+import { ThreadsNetworkError } from "./errors";
+
+export type HttpMethod = "GET" | "POST" | "DELETE";
+
+/**
+ * A request as handed to an HttpTransport.
+ */
+export interface HttpRequest {
+  method: HttpMethod;
+  url: string;
+  /**
+   * Query parameters, sent with GET and DELETE requests.
+   */
+  params?: Record<string, string> | URLSearchParams;
+  /**
+   * Request body, sent with POST requests. URLSearchParams are sent form-encoded
+   * and plain objects as JSON.
+   */
+  data?: Record<string, string> | URLSearchParams;
+  headers: Record<string, string>;
+  /**
+   * Milliseconds after which the request is aborted. No limit when omitted or 0.
+   */
+  timeout?: number;
+}
+
+/**
+ * A response as returned by an HttpTransport.
+ */
+export interface HttpResponse<T = unknown> {
+  status: number;
+  data: T;
+  /**
+   * Response headers with lowercase names.
+   */
+  headers: Record<string, string | undefined>;
+}
+
+/**
+ * Sends HTTP requests for ThreadsAPI. Implementations resolve with every
+ * response the server sends, including error statuses, and reject only when
+ * no response was received, preferably with a ThreadsNetworkError so the
+ * request can be retried.
+ */
+export interface HttpTransport {
+  request<T>(request: HttpRequest): Promise<HttpResponse<T>>;
+}
+
+export interface AxiosTransportOptions {
+  /**
+   * Axios instance to send requests with. Defaults to the global axios.
+   */
+  instance?: AxiosInstance;
+  /**
+   * Proxy settings, or false to ignore proxy environment variables.
+   */
+  proxy?: AxiosProxyConfig | false;
+  httpAgent?: HttpAgent;
+  httpsAgent?: HttpsAgent;
+}
+
+/**
+ * Convert response headers into a plain object with lowercase names
+ * @param headers The headers
+ * @returns The headers as a plain object
+ */
+function normalizeHeaders(
+  headers: Record<string, unknown> | undefined,
+): Record<string, string | undefined> {
+  const normalized: Record<string, string | undefined> = {};
+  Object.keys(headers ?? {}).forEach((name) => {
+    const value = headers?.[name];
+    if (value !== undefined && value !== null) {
+      normalized[name.toLowerCase()] = Array.isArray(value)
+        ? value.join(", ")
+        : String(value);
+    }
+  });
+  return normalized;
+}
+
+/**
+ * Create the default transport, backed by axios. axios is loaded when the
+ * first request is sent, so apps using another transport never load it.
+ * @param options Proxy, agent and instance settings
+ * @returns The transport
+ */
+export function createAxiosTransport(
+  options: AxiosTransportOptions = {},
+): HttpTransport {
+  let instance: Promise<AxiosInstance> | undefined;
+  const getInstance = (): Promise<AxiosInstance> => {
+    if (!instance) {
+      instance = options.instance
+        ? Promise.resolve(options.instance)
+        : import("axios").then((module) => module.default);
+    }
+    return instance;
+  };
+  return {
+    async request<T>(request: HttpRequest): Promise<HttpResponse<T>> {
+      const response = await (
+        await getInstance()
+      ).request<T>({
+        method: request.method,
+        url: request.url,
+        params: request.params,
+        data: request.data,
+        headers: request.headers,
+        timeout: request.timeout,
+        ...(options.proxy !== undefined && { proxy: options.proxy }),
+        ...(options.httpAgent && { httpAgent: options.httpAgent }),
+        ...(options.httpsAgent && { httpsAgent: options.httpsAgent }),
+        // Error statuses are mapped by ThreadsAPI
+        validateStatus: () => true,
+      });
+      return {
+        status: response.status,
+        data: response.data,
+        headers: normalizeHeaders(response.headers as Record<string, unknown>),
+      };
+    },
+  };
+}
+
+/**
+ * The subset of the Fetch API used by the fetch transport.
+ */
+export type FetchFunction = (
+  url: string,
+  init: {
+    method: string;
+    headers: Record<string, string>;
+    body?: string;
+    signal?: AbortSignal;
+  },
+) => Promise<{
+  status: number;
+  headers: { forEach(callback: (value: string, name: string) => void): void };
+  text(): Promise<string>;
+}>;
+
+/**
+ * Create a transport backed by `fetch`, for runtimes without Node's http module
+ * such as edge functions
+ * @param fetchFunction The fetch implementation. Defaults to the global `fetch`.
+ * @returns The transport
+ */
+export function createFetchTransport(
+  fetchFunction: FetchFunction = (
+    globalThis as unknown as { fetch: FetchFunction }
+  ).fetch,
+): HttpTransport {
+  if (typeof fetchFunction !== "function") {
+    throw new Error("fetch is not available in this runtime");
+  }
+  return {
+    async request<T>(request: HttpRequest): Promise<HttpResponse<T>> {
+      const url = new URL(request.url);
+      const headers = { ...request.headers };
+      let body: string | undefined;
+      if (request.method !== "POST") {
+        new URLSearchParams(request.params).forEach((value, name) => {
+          url.searchParams.set(name, value);
+        });
+      } else if (request.data instanceof URLSearchParams) {
+        body = request.data.toString();
+        headers["Content-Type"] = "application/x-www-form-urlencoded";
+      } else if (request.data) {
+        body = JSON.stringify(request.data);
+        headers["Content-Type"] = "application/json";
+      }
+
+      const controller = request.timeout ? new AbortController() : undefined;
+      const timer = controller
+        ? setTimeout(() => controller.abort(), request.timeout)
+        : undefined;
+      try {
+        const response = await fetchFunction(url.toString(), {
+          method: request.method,
+          headers,
+          body,
+          signal: controller?.signal,
+        });
+        const text = await response.text();
+        const responseHeaders: Record<string, string> = {};
+        response.headers.forEach((value, name) => {
+          responseHeaders[name.toLowerCase()] = value;
+        });
+        let data: unknown = text;
+        try {
+          data = JSON.parse(text);
+        } catch {
+          // Not JSON, keep the raw text
+        }
+        return {
+          status: response.status,
+          data: data as T,
+          headers: responseHeaders,
+        };
+      } catch (error) {
+        throw new ThreadsNetworkError(
+          controller?.signal.aborted
+            ? `Request timed out after ${request.timeout}ms`
+            : (error as Error).message,
+          { cause: error },
+        );
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+  };
+}
@@ -0,0 +1,270 @@
+import { ThreadsPostValidationError, PostViolation } from "./errors";
+import type { MediaType, PostInput, PostOptions } from "./index";
+
+// Documented limits, see https://developers.facebook.com/docs/threads/overview
+export const MAX_TEXT_LENGTH = 500;
+export const MAX_LINKS = 5;
+export const MIN_CAROUSEL_ITEMS = 2;
+export const MAX_CAROUSEL_ITEMS = 20;
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s]+/gi;
+
+type Segmenter = new (
+  locales?: string,
+  options?: { granularity: "grapheme" },
+) => { segment(text: string): Iterable<unknown> };
+
+/**
+ * Count the characters of a text the way users perceive them, so that an
+ * emoji made of several code points (e.g. a family or a flag) counts as one
+ * @param text The text to measure
+ * @returns The number of characters
+ */
+export function countCharacters(text: string): number {
+  const { Segmenter } = Intl as unknown as { Segmenter?: Segmenter };
+  if (Segmenter) {
+    let count = 0;
+    for (const _ of new Segmenter(undefined, {
+      granularity: "grapheme",
+    }).segment(text)) {
+      count += 1;
+    }
+    return count;
+  }
+  return Array.from(text).length;
+}
+
+/**
+ * Collect the distinct links in a text and link attachment
+ * @param text The text of the post
+ * @param linkAttachment The link attachment of the post
+ * @returns The distinct links
+ */
+function collectLinks(text?: string, linkAttachment?: string): Set<string> {
+  const links = new Set(text?.match(URL_PATTERN) ?? []);
+  if (linkAttachment) {
+    links.add(linkAttachment);
+  }
+  return links;
+}
+
+/**
+ * Check a media URL is present and served over HTTPS
+ * @param mediaUrl The media URL
+ * @param field The name of the field, used in violations
+ * @returns The violations found
+ */
+function validateMediaUrl(
+  mediaUrl: string | undefined,
+  field: string,
+): PostViolation[] {
+  if (!mediaUrl) {
+    return [
+      {
+        code: "MEDIA_URL_REQUIRED",
+        field,
+        message: "Image and video posts require a media URL",
+      },
+    ];
+  }
+  if (!/^https:\/\//i.test(mediaUrl)) {
+    return [
+      {
+        code: "MEDIA_URL_NOT_HTTPS",
+        field,
+        message: `Media URL must use HTTPS: ${mediaUrl}`,
+      },
+    ];
+  }
+  return [];
+}
+
+/**
+ * Check the text, links and options shared by every post
+ * @param mediaType The type of the post
+ * @param text The text of the post
+ * @param options The post options
+ * @returns The violations found
+ */
+function validateContent(
+  mediaType: MediaType,
+  text?: string,
+  options?: PostOptions,
+): PostViolation[] {
+  const violations: PostViolation[] = [];
+  if (text) {
+    const length = countCharacters(text);
+    if (length > MAX_TEXT_LENGTH) {
+      violations.push({
+        code: "TEXT_TOO_LONG",
+        field: "text",
+        message: `Text is ${length} characters long, the limit is ${MAX_TEXT_LENGTH}`,
+      });
+    }
+  }
+  const links = collectLinks(text, options?.linkAttachment);
+  if (links.size > MAX_LINKS) {
+    violations.push({
+      code: "TOO_MANY_LINKS",
+      field: "text",
+      message: `Post contains ${links.size} links, the limit is ${MAX_LINKS}`,
+    });
+  }
+  if (options?.linkAttachment && mediaType !== "TEXT") {
+    violations.push({
+      code: "LINK_ATTACHMENT_NOT_ALLOWED",
+      field: "options.linkAttachment",
+      message: "Link attachments are only available for text posts",
+    });
+  }
+  return violations;
+}
+
+/**
+ * Validate the parameters of a single media container
+ * @param mediaType The type of media
+ * @param mediaUrl The URL for image or video
+ * @param text The text content
+ * @param options The post options
+ * @returns The violations found
+ */
+export function validateMediaContainer({
+  mediaType,
+  mediaUrl,
+  text,
+  options,
+}: {
+  mediaType: MediaType;
+  mediaUrl?: string;
+  text?: string;
+  options?: PostOptions;
+}): PostViolation[] {
+  const violations = validateContent(mediaType, text, options);
+  if (mediaType === "CAROUSEL") {
+    violations.push({
+      code: "CAROUSEL_NOT_ALLOWED",
+      field: "mediaType",
+      message:
+        "Carousels must be created with createCarouselItemContainer and createCarouselContainer",
+    });
+  } else if (mediaType === "TEXT") {
+    if (!text) {
+      violations.push({
+        code: "TEXT_REQUIRED",
+        field: "text",
+        message: "Text posts require text",
+      });
+    }
+    if (mediaUrl) {
+      violations.push({
+        code: "UNEXPECTED_MEDIA_URL",
+        field: "mediaUrl",
+        message: "Text posts cannot have a media URL",
+      });
+    }
+  } else {
+    violations.push(...validateMediaUrl(mediaUrl, "mediaUrl"));
+  }
+  return violations;
+}
+
+/**
+ * Validate the parameters of a carousel item container
+ * @param mediaType The type of media
+ * @param mediaUrl The URL of the media
+ * @param field The name of the field, used in violations
+ * @returns The violations found
+ */
+export function validateCarouselItem(
+  {
+    mediaType,
+    mediaUrl,
+  }: {
+    mediaType: string;
+    mediaUrl?: string;
+  },
+  field = "mediaUrl",
+): PostViolation[] {
+  if (mediaType !== "IMAGE" && mediaType !== "VIDEO") {
+    return [
+      {
+        code: "INVALID_CAROUSEL_ITEM_TYPE",
+        field,
+        message: `Carousel items must be images or videos, got ${mediaType}`,
+      },
+    ];
+  }
+  return validateMediaUrl(mediaUrl, field);
+}
+
+/**
+ * Validate the parameters of a carousel container
+ * @param itemCount The number of carousel items
+ * @param text The text content
+ * @param options The post options
+ * @param field The name of the items field, used in violations
+ * @returns The violations found
+ */
+export function validateCarouselContainer(
+  {
+    itemCount,
+    text,
+    options,
+  }: {
+    itemCount: number;
+    text?: string;
+    options?: PostOptions;
+  },
+  field = "children",
+): PostViolation[] {
+  const violations = validateContent("CAROUSEL", text, options);
+  if (itemCount < MIN_CAROUSEL_ITEMS) {
+    violations.push({
+      code: "TOO_FEW_CAROUSEL_ITEMS",
+      field,
+      message: `Carousels need at least ${MIN_CAROUSEL_ITEMS} items, got ${itemCount}`,
+    });
+  } else if (itemCount > MAX_CAROUSEL_ITEMS) {
+    violations.push({
+      code: "TOO_MANY_CAROUSEL_ITEMS",
+      field,
+      message: `Carousels can have at most ${MAX_CAROUSEL_ITEMS} items, got ${itemCount}`,
+    });
+  }
+  return violations;
+}
+
+/**
+ * Check a post against the documented limits without calling the API
+ * @param post The post to validate
+ * @returns Every violation found, empty if the post is valid
+ */
+export function validatePost(post: PostInput): PostViolation[] {
+  if (post.mediaType !== "CAROUSEL") {
+    return validateMediaContainer({
+      mediaType: post.mediaType,
+      mediaUrl: post.mediaType === "TEXT" ? undefined : post.mediaUrl,
+      text: post.text,
+      options: post,
+    });
+  }
+  const violations = validateCarouselContainer(
+    { itemCount: post.items.length, text: post.text, options: post },
+    "items",
+  );
+  post.items.forEach((item, index) => {
+    violations.push(...validateCarouselItem(item, `items[${index}].mediaUrl`));
+  });
+  return violations;
+}
+
+/**
+ * Throw if any violation was found
+ * @param violations The violations found by a validator
+ * @throws ThreadsPostValidationError listing every violation
+ */
+export function assertValid(violations: PostViolation[]): void {
+  if (violations.length > 0) {
+    throw new ThreadsPostValidationError(violations);
+  }
+}
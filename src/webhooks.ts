@@ -0,0 +1,428 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { EventEmitter } from "events";
+import type { IncomingMessage, ServerResponse } from "http";
+import type { ThreadsMediaType } from "./index";
+
+export type ThreadsWebhookField =
+  | "replies"
+  | "mentions"
+  | "publish"
+  | "delete"
+  | "moderate";
+
+/**
+ * A media object as sent in webhook payloads.
+ */
+export interface WebhookMedia {
+  id: string;
+  username?: string;
+  text?: string;
+  media_type?: ThreadsMediaType;
+  permalink?: string;
+  shortcode?: string;
+  timestamp?: string;
+}
+
+export interface WebhookReplyValue extends WebhookMedia {
+  replied_to?: { id: string };
+  root_post?: { id: string; owner_id?: string; username?: string };
+  is_reply?: boolean;
+  hide_status?: string;
+}
+
+export type WebhookMentionValue = WebhookMedia;
+
+export interface WebhookPublishValue {
+  id: string;
+  owner_id?: string;
+  username?: string;
+  permalink?: string;
+  timestamp?: string;
+}
+
+export interface WebhookDeleteValue {
+  id: string;
+  owner_id?: string;
+  deleted_at?: string;
+}
+
+export interface WebhookModerateValue extends WebhookReplyValue {
+  hide_status?: string;
+}
+
+interface WebhookEventBase<F extends ThreadsWebhookField, V> {
+  field: F;
+  value: V;
+  /**
+   * ID of the Threads user the notification is about.
+   */
+  targetId?: string;
+  /**
+   * Unix timestamp in seconds at which the change happened.
+   */
+  time?: number;
+  appId?: string;
+  subscriptionId?: string;
+}
+
+export type ThreadsReplyEvent = WebhookEventBase<"replies", WebhookReplyValue>;
+export type ThreadsMentionEvent = WebhookEventBase<
+  "mentions",
+  WebhookMentionValue
+>;
+export type ThreadsPublishEvent = WebhookEventBase<
+  "publish",
+  WebhookPublishValue
+>;
+export type ThreadsDeleteEvent = WebhookEventBase<"delete", WebhookDeleteValue>;
+export type ThreadsModerateEvent = WebhookEventBase<
+  "moderate",
+  WebhookModerateValue
+>;
+
+export type ThreadsWebhookEvent =
+  | ThreadsReplyEvent
+  | ThreadsMentionEvent
+  | ThreadsPublishEvent
+  | ThreadsDeleteEvent
+  | ThreadsModerateEvent;
+
+const WEBHOOK_FIELDS: ThreadsWebhookField[] = [
+  "replies",
+  "mentions",
+  "publish",
+  "delete",
+  "moderate",
+];
+
+type QueryParams =
+  | URLSearchParams
+  | Record<string, string | string[] | undefined>;
+
+/**
+ * Read a single query parameter
+ * @param query The query parameters
+ * @param name The parameter name
+ * @returns The first value of the parameter
+ */
+function queryParam(query: QueryParams, name: string): string | undefined {
+  if (query instanceof URLSearchParams) {
+    return query.get(name) ?? undefined;
+  }
+  const value = query[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Answer the verification request Meta sends when a webhook subscription is created
+ * @param query The query parameters of the request
+ * @param verifyToken The verify token entered in the App Dashboard
+ * @returns The `hub.challenge` to echo back, or undefined if the request is not a valid verification request
+ */
+export function verifyWebhookChallenge(
+  query: QueryParams,
+  verifyToken: string,
+): string | undefined {
+  if (
+    queryParam(query, "hub.mode") !== "subscribe" ||
+    queryParam(query, "hub.verify_token") !== verifyToken
+  ) {
+    return undefined;
+  }
+  return queryParam(query, "hub.challenge");
+}
+
+/**
+ * Check the `X-Hub-Signature-256` header of a webhook notification
+ * @param rawBody The request body exactly as received
+ * @param signature The value of the `X-Hub-Signature-256` header
+ * @param appSecret The app secret (`clientSecret`)
+ * @returns Whether the signature matches the body
+ */
+export function verifyWebhookSignature(
+  rawBody: string | Buffer,
+  signature: string | undefined,
+  appSecret: string,
+): boolean {
+  if (!signature?.startsWith("sha256=")) {
+    return false;
+  }
+  const expected = Buffer.from(
+    `sha256=${createHmac("sha256", appSecret).update(rawBody).digest("hex")}`,
+  );
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Convert a webhook notification body into typed events.
+ * Both the Threads format (`topic` and `values`) and the Graph format
+ * (`entry[].changes[]`) are supported; changes to unknown fields and changes
+ * whose value is not an object with a string `id` are skipped.
+ * @param body The parsed JSON body
+ * @returns The events contained in the notification
+ */
+export function parseWebhookPayload(body: unknown): ThreadsWebhookEvent[] {
+  const payload = body as Record<string, any> | undefined;
+  const changes: {
+    field: string;
+    value: unknown;
+    targetId?: string;
+    time?: number;
+    appId?: string;
+    subscriptionId?: string;
+  }[] = [];
+
+  if (payload?.values) {
+    const values = Array.isArray(payload.values)
+      ? payload.values
+      : [payload.values];
+    for (const { field, value } of values) {
+      changes.push({
+        field: field ?? payload.topic,
+        value,
+        targetId: payload.target_id,
+        time: payload.time,
+        appId: payload.app_id,
+        subscriptionId: payload.subscription_id,
+      });
+    }
+  }
+  for (const entry of payload?.entry ?? []) {
+    for (const { field, value } of entry.changes ?? []) {
+      changes.push({ field, value, targetId: entry.id, time: entry.time });
+    }
+  }
+
+  return changes.filter(
+    ({ field, value }) =>
+      WEBHOOK_FIELDS.includes(field as ThreadsWebhookField) &&
+      typeof value === "object" &&
+      value !== null &&
+      typeof (value as { id?: unknown }).id === "string",
+  ) as ThreadsWebhookEvent[];
+}
+
+export interface WebhookRequest {
+  method: string;
+  query: QueryParams;
+  headers: Record<string, string | string[] | undefined>;
+  rawBody?: string | Buffer;
+}
+
+export interface WebhookResponse {
+  status: number;
+  body: string;
+  /**
+   * Errors thrown or rejected by listeners, whether or not an `error` listener
+   * reported them. The status is then 500 so Meta delivers the notification again.
+   */
+  errors?: Error[];
+}
+
+/**
+ * Minimal shape of an Express-style request. The raw body is needed to check
+ * the signature, so mount the handler behind `express.raw({ type: "application/json" })`
+ * or expose the raw body as `req.rawBody`.
+ */
+export interface ExpressLikeRequest {
+  method: string;
+  query: Record<string, any>;
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
+  rawBody?: string | Buffer;
+}
+
+export interface ExpressLikeResponse {
+  status(code: number): ExpressLikeResponse;
+  send(body: string): unknown;
+}
+
+export interface ThreadsWebhookHandlerOptions {
+  /**
+   * The app secret used to sign notifications, i.e. `clientSecret` of ThreadsAPIConfig.
+   */
+  clientSecret: string;
+  /**
+   * The verify token entered in the App Dashboard.
+   */
+  verifyToken: string;
+}
+
+type WebhookEventMap = {
+  event: ThreadsWebhookEvent;
+  replies: ThreadsReplyEvent;
+  mentions: ThreadsMentionEvent;
+  publish: ThreadsPublishEvent;
+  delete: ThreadsDeleteEvent;
+  moderate: ThreadsModerateEvent;
+};
+
+export interface ThreadsWebhookHandler {
+  on<K extends keyof WebhookEventMap>(
+    event: K,
+    listener: (event: WebhookEventMap[K]) => void | Promise<void>,
+  ): this;
+  on(event: "error", listener: (error: Error) => void): this;
+  once<K extends keyof WebhookEventMap>(
+    event: K,
+    listener: (event: WebhookEventMap[K]) => void | Promise<void>,
+  ): this;
+  once(event: "error", listener: (error: Error) => void): this;
+}
+
+/**
+ * Receives Threads webhook notifications and dispatches them as typed events.
+ * Every event is emitted under its field name (e.g. `replies`) and under `event`.
+ * Listeners may be async; the response is sent once they have all settled.
+ */
+export class ThreadsWebhookHandler extends EventEmitter {
+  private clientSecret: string;
+
+  private verifyToken: string;
+
+  constructor(options: ThreadsWebhookHandlerOptions) {
+    super();
+    this.clientSecret = options.clientSecret;
+    this.verifyToken = options.verifyToken;
+  }
+
+  /**
+   * Handle a webhook request independently of any HTTP framework
+   * @param request The method, query, headers and raw body of the request
+   * @returns The status and body to respond with, once every listener has settled
+   */
+  async handle(request: WebhookRequest): Promise<WebhookResponse> {
+    if (request.method.toUpperCase() === "GET") {
+      const challenge = verifyWebhookChallenge(request.query, this.verifyToken);
+      return challenge === undefined
+        ? { status: 403, body: "Forbidden" }
+        : { status: 200, body: challenge };
+    }
+    if (request.method.toUpperCase() !== "POST") {
+      return { status: 405, body: "Method Not Allowed" };
+    }
+
+    const rawBody = request.rawBody ?? "";
+    const signature = request.headers["x-hub-signature-256"];
+    if (
+      !verifyWebhookSignature(
+        rawBody,
+        Array.isArray(signature) ? signature[0] : signature,
+        this.clientSecret,
+      )
+    ) {
+      return { status: 401, body: "Invalid signature" };
+    }
+
+    let events: ThreadsWebhookEvent[];
+    try {
+      events = parseWebhookPayload(JSON.parse(rawBody.toString()));
+    } catch {
+      return { status: 400, body: "Invalid payload" };
+    }
+    const errors = await this.dispatch(events);
+    return errors.length > 0
+      ? { status: 500, body: "Listener failed", errors }
+      : { status: 200, body: "OK" };
+  }
+
+  /**
+   * Create a listener for Node's `http.createServer`
+   * @returns The request listener
+   */
+  nodeHandler(): (req: IncomingMessage, res: ServerResponse) => void {
+    return (req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("error", (error) => {
+        this.emitError(error);
+        if (!res.headersSent) {
+          res.writeHead(400, { "Content-Type": "text/plain" });
+          res.end("Invalid request");
+        }
+      });
+      req.on("end", async () => {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        const { status, body } = await this.handle({
+          method: req.method ?? "GET",
+          query: url.searchParams,
+          headers: req.headers,
+          rawBody: Buffer.concat(chunks),
+        });
+        res.writeHead(status, { "Content-Type": "text/plain" });
+        res.end(body);
+      });
+    };
+  }
+
+  /**
+   * Create an Express-style route handler
+   * @returns The route handler
+   */
+  expressHandler(): (
+    req: ExpressLikeRequest,
+    res: ExpressLikeResponse,
+  ) => Promise<void> {
+    return async (req, res) => {
+      const rawBody =
+        req.rawBody ??
+        (typeof req.body === "string" || Buffer.isBuffer(req.body)
+          ? req.body
+          : undefined);
+      const { status, body } = await this.handle({
+        method: req.method,
+        query: req.query,
+        headers: req.headers,
+        rawBody,
+      });
+      res.status(status).send(body);
+    };
+  }
+
+  /**
+   * Call the listeners of every event and wait for them to settle, reporting
+   * failures as `error` events. Each listener runs even if another one failed.
+   * @param events The events to emit
+   * @returns The errors thrown or rejected by listeners
+   */
+  private async dispatch(events: ThreadsWebhookEvent[]): Promise<Error[]> {
+    const outcomes: Promise<Error | undefined>[] = [];
+    for (const event of events) {
+      for (const name of [event.field, "event"]) {
+        for (const listener of this.rawListeners(name)) {
+          outcomes.push(
+            new Promise<unknown>((resolve) =>
+              resolve(listener.call(this, event)),
+            ).then(
+              () => undefined,
+              (error: unknown) =>
+                error instanceof Error ? error : new Error(String(error)),
+            ),
+          );
+        }
+      }
+    }
+    const errors = (await Promise.all(outcomes)).filter(
+      (error): error is Error => error !== undefined,
+    );
+    errors.forEach((error) => this.emitError(error));
+    return errors;
+  }
+
+  /**
+   * Emit an `error` event if anyone listens for it
+   * @param error The error
+   * @returns Whether the error was emitted
+   */
+  private emitError(error: unknown): boolean {
+    if (this.listenerCount("error") === 0) {
+      return false;
+    }
+    this.emit(
+      "error",
+      error instanceof Error ? error : new Error(String(error)),
+    );
+    return true;
+  }
+}
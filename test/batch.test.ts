@@ -0,0 +1,124 @@
+import { expect } from "chai";
+import { MAX_BATCH_SIZE, ThreadsAPIError, ThreadsNotFoundError } from "../src";
+import { createTestClient } from "./helpers";
+
+describe("ThreadsBatch", () => {
+  const setup = () => {
+    const context = createTestClient();
+    const posts = Array.from({ length: 3 }, (_, index) =>
+      context.server.store.createMedia({
+        userId: context.user.id,
+        text: `Post ${index}`,
+      }),
+    );
+    return { ...context, posts };
+  };
+
+  it("resolves references to operations of an earlier chunk", async () => {
+    const { api, posts } = setup();
+    const batch = api.batch();
+    const first = batch.add(
+      (client) =>
+        client.getThreadsMediaObject({ mediaId: posts[0].id, fields: ["id"] }),
+      "first",
+    );
+    for (let index = 1; index < MAX_BATCH_SIZE; index += 1) {
+      batch.add((client) =>
+        client.getThreadsMediaObject({ mediaId: posts[1].id, fields: ["id"] }),
+      );
+    }
+    const last = batch.add((client) =>
+      client.getThreadsMediaObject({
+        mediaId: first.ref("$.id"),
+        fields: ["text"],
+      }),
+    );
+
+    const outcomes = await batch.execute();
+
+    expect(outcomes).to.have.length(MAX_BATCH_SIZE + 1);
+    expect(outcomes.every(({ ok }) => ok)).to.equal(true);
+    expect((await last.result).text).to.equal("Post 0");
+  });
+
+  it("rejects operations that were not run because a dependency failed", async () => {
+    const { api } = setup();
+    const batch = api.batch();
+    const missing = batch.add(
+      (client) =>
+        client.getThreadsMediaObject({ mediaId: "404", fields: ["id"] }),
+      "missing",
+    );
+    const dependent = batch.add((client) =>
+      client.getThreadsMediaObject({
+        mediaId: missing.ref("$.id"),
+        fields: ["text"],
+      }),
+    );
+
+    const outcomes = await batch.execute();
+
+    expect(outcomes.map(({ ok }) => ok)).to.deep.equal([false, false]);
+    const error = await dependent.result.catch((caught: unknown) => caught);
+    expect(error).to.be.instanceOf(ThreadsAPIError);
+    expect((error as Error).message).to.contain("was not run");
+  });
+
+  it("settles every operation when some of them fail", async () => {
+    const { api, posts } = setup();
+    const batch = api.batch();
+    batch.add((client) =>
+      client.getThreadsMediaObject({ mediaId: posts[0].id, fields: ["text"] }),
+    );
+    batch.add((client) =>
+      client.getThreadsMediaObject({ mediaId: "404", fields: ["text"] }),
+    );
+    batch.add((client) =>
+      client.getThreadsMediaObject({ mediaId: posts[2].id, fields: ["text"] }),
+    );
+
+    const outcomes = await batch.execute();
+
+    expect(outcomes.map(({ ok }) => ok)).to.deep.equal([true, false, true]);
+    const failure = outcomes[1];
+    expect(!failure.ok && failure.error).to.be.instanceOf(ThreadsNotFoundError);
+  });
+
+  it("sends requests made after the batch was sent on their own", async () => {
+    const { server, api, posts } = setup();
+    const batch = api.batch();
+    const chained = batch.add(async (client) => {
+      const post = await client.getThreadsMediaObject({
+        mediaId: posts[0].id,
+        fields: ["id"],
+      });
+      return client.getThreadsMediaObject({
+        mediaId: post.id,
+        fields: ["text"],
+      });
+    });
+
+    const [outcome] = await batch.execute();
+
+    expect(outcome.ok).to.equal(true);
+    expect((await chained.result).text).to.equal("Post 0");
+    expect(server.requests).to.have.length(2);
+  });
+
+  it("cannot be executed or extended twice", async () => {
+    const { api } = setup();
+    const batch = api.batch();
+    await batch.execute();
+
+    expect(() =>
+      batch.add((client) =>
+        client.getUserProfile({
+          userId: "me",
+          fields: ["id"],
+        }),
+      ),
+    ).to.throw("already been executed");
+    const error = await batch.execute().catch((caught: unknown) => caught);
+    expect((error as Error).message).to.contain("already been executed");
+  });
+});
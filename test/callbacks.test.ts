@@ -0,0 +1,149 @@
+import { expect } from "chai";
+import { createHmac } from "crypto";
+import {
+  parseAppCallback,
+  parseSignedRequest,
+  ThreadsSignedRequestError,
+} from "../src";
+import { createTestClient, TEST_CONFIG } from "./helpers";
+
+/**
+ * Sign a payload the way Meta signs callback requests
+ */
+function sign(payload: Record<string, unknown>, secret: string): string {
+  const encodedPayload = Buffer.from(JSON.stringify(payload))
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+  const signature = createHmac("sha256", secret)
+    .update(encodedPayload)
+    .digest("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+  return `${signature}.${encodedPayload}`;
+}
+
+const payload = {
+  algorithm: "HMAC-SHA256",
+  issued_at: 1700000000,
+  user_id: "1234",
+};
+
+describe("signed requests", () => {
+  it("decodes a request signed with the app secret", () => {
+    const signedRequest = sign(payload, TEST_CONFIG.clientSecret);
+
+    expect(
+      parseSignedRequest(signedRequest, TEST_CONFIG.clientSecret),
+    ).to.deep.equal(payload);
+    expect(
+      parseAppCallback(
+        `signed_request=${encodeURIComponent(signedRequest)}`,
+        TEST_CONFIG.clientSecret,
+      ),
+    ).to.deep.equal({ userId: "1234", issuedAt: 1700000000, payload });
+  });
+
+  it("rejects a request signed with another secret", () => {
+    const signedRequest = sign(payload, "another-secret");
+
+    expect(() =>
+      parseSignedRequest(signedRequest, TEST_CONFIG.clientSecret),
+    ).to.throw(ThreadsSignedRequestError, /signature/);
+  });
+
+  it("rejects a tampered payload", () => {
+    const [signature] = sign(payload, TEST_CONFIG.clientSecret).split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ ...payload, user_id: "5678" }),
+    ).toString("base64");
+
+    expect(() =>
+      parseSignedRequest(`${signature}.${forged}`, TEST_CONFIG.clientSecret),
+    ).to.throw(ThreadsSignedRequestError, /signature/);
+  });
+
+  it("rejects malformed requests and unsupported algorithms", () => {
+    expect(() =>
+      parseSignedRequest("no-payload", TEST_CONFIG.clientSecret),
+    ).to.throw(ThreadsSignedRequestError, /Malformed/);
+    expect(() =>
+      parseSignedRequest(
+        sign({ ...payload, algorithm: "HMAC-SHA1" }, TEST_CONFIG.clientSecret),
+        TEST_CONFIG.clientSecret,
+      ),
+    ).to.throw(ThreadsSignedRequestError, /algorithm/);
+    expect(() => parseAppCallback({}, TEST_CONFIG.clientSecret)).to.throw(
+      ThreadsSignedRequestError,
+    );
+  });
+});
+
+describe("handleDeauthorizeCallback", () => {
+  it("deletes the token of a single-account client", async () => {
+    const { server, api, user } = createTestClient({ authenticate: false });
+    const other = server.store.createUser({ username: "bob" });
+    await api.completeAuthorization({
+      callbackUrl: `https://example.com/callback?code=${server.store.createAuthorizationCode(
+        user.id,
+      )}&state=state`,
+      expectedState: "state",
+    });
+    await api.tokens.save(
+      {
+        access_token: other.accessToken,
+        token_type: "bearer",
+        expires_in: 3600,
+      },
+      { longLived: true, key: other.user.id },
+    );
+
+    const callback = await api.handleDeauthorizeCallback({
+      signed_request: sign(
+        { ...payload, user_id: user.id },
+        TEST_CONFIG.clientSecret,
+      ),
+    });
+
+    expect(callback.userId).to.equal(user.id);
+    expect(await api.tokens.get()).to.equal(undefined);
+    expect(await api.tokens.get(other.user.id)).to.not.equal(undefined);
+  });
+
+  it("deletes tokens saved under the user's ID and keeps other users' tokens", async () => {
+    const { server, api, user, accessToken } = createTestClient({
+      authenticate: false,
+    });
+    const other = server.store.createUser({ username: "bob" });
+    await api.tokens.save(
+      {
+        access_token: accessToken,
+        token_type: "bearer",
+        expires_in: 3600,
+        user_id: user.id,
+      },
+      { longLived: true, key: user.id },
+    );
+    await api.tokens.save(
+      {
+        access_token: other.accessToken,
+        token_type: "bearer",
+        expires_in: 3600,
+        user_id: other.user.id,
+      },
+      { longLived: true },
+    );
+
+    await api.handleDeauthorizeCallback({
+      signed_request: sign(
+        { ...payload, user_id: user.id },
+        TEST_CONFIG.clientSecret,
+      ),
+    });
+
+    expect(await api.tokens.get(user.id)).to.equal(undefined);
+    expect(await api.tokens.get()).to.not.equal(undefined);
+  });
+});
@@ -0,0 +1,192 @@
+import { expect } from "chai";
+import {
+  buildConversationTree,
+  ConversationNode,
+  ConversationReply,
+  ConversationTree,
+  filterConversation,
+  flattenConversation,
+  walkConversation,
+} from "../src";
+import { createTestClient } from "./helpers";
+
+type Reply = ConversationReply<"text">;
+
+/**
+ * Build a reply posted `minute` minutes after the root post
+ */
+function reply(id: string, parentId: string, minute: number): Reply {
+  return {
+    id,
+    text: id,
+    replied_to: { id: parentId },
+    timestamp: new Date(Date.UTC(2024, 4, 1, 12, minute)).toISOString(),
+  };
+}
+
+/**
+ * Describe a tree as nested IDs with their depth
+ */
+function shape(nodes: ConversationNode<"text">[]): unknown[] {
+  return nodes.map((node) =>
+    node.children.length > 0
+      ? [node.reply.id, node.depth, shape(node.children)]
+      : [node.reply.id, node.depth],
+  );
+}
+
+describe("buildConversationTree", () => {
+  // root
+  // ├── a (1)
+  // │   ├── a1 (3)
+  // │   │   └── a1x (5)
+  // │   └── a2 (4)
+  // └── b (2)
+  const replies = [
+    reply("a1x", "a1", 5),
+    reply("b", "root", 2),
+    reply("a1", "a", 3),
+    reply("a", "root", 1),
+    reply("a2", "a", 4),
+  ];
+
+  it("nests replies under their parent, oldest first", () => {
+    const tree = buildConversationTree("root", replies, { reverse: false });
+
+    expect(tree.size).to.equal(5);
+    expect(shape(tree.children)).to.deep.equal([
+      [
+        "a",
+        1,
+        [
+          ["a1", 2, [["a1x", 3]]],
+          ["a2", 2],
+        ],
+      ],
+      ["b", 1],
+    ]);
+  });
+
+  it("orders siblings newest first by default", () => {
+    const tree = buildConversationTree("root", replies);
+
+    expect(shape(tree.children)).to.deep.equal([
+      ["b", 1],
+      [
+        "a",
+        1,
+        [
+          ["a2", 2],
+          ["a1", 2, [["a1x", 3]]],
+        ],
+      ],
+    ]);
+  });
+
+  it("lists replies whose parent is missing at the top level", () => {
+    const tree = buildConversationTree(
+      "root",
+      [reply("a", "root", 1), reply("orphan", "deleted", 2)],
+      { reverse: false },
+    );
+
+    expect(shape(tree.children)).to.deep.equal([
+      ["a", 1],
+      ["orphan", 1],
+    ]);
+  });
+
+  it("fetches and nests the replies of a post", async () => {
+    const { server, api, user } = createTestClient();
+    const root = server.store.createMedia({ userId: user.id, text: "Root" });
+    const first = server.store.createMedia({
+      userId: user.id,
+      text: "First",
+      replyToId: root.id,
+      timestamp: new Date("2024-05-01T12:00:00Z"),
+    });
+    server.store.createMedia({
+      userId: user.id,
+      text: "Nested",
+      replyToId: first.id,
+      timestamp: new Date("2024-05-01T12:05:00Z"),
+    });
+    server.store.createMedia({
+      userId: user.id,
+      text: "Second",
+      replyToId: root.id,
+      timestamp: new Date("2024-05-01T12:10:00Z"),
+    });
+
+    const tree = await api.getConversationTree({
+      mediaId: root.id,
+      fields: ["text"],
+      reverse: false,
+    });
+
+    expect(
+      flattenConversation(tree).map(({ reply: { text }, depth }) => [
+        text,
+        depth,
+      ]),
+    ).to.deep.equal([
+      ["First", 1],
+      ["Nested", 2],
+      ["Second", 1],
+    ]);
+  });
+});
+
+describe("conversation helpers", () => {
+  let tree: ConversationTree<"text">;
+
+  beforeEach(() => {
+    tree = buildConversationTree(
+      "root",
+      [
+        reply("a", "root", 1),
+        reply("a1", "a", 2),
+        reply("a1x", "a1", 3),
+        reply("a2", "a", 4),
+        reply("b", "root", 5),
+      ],
+      { reverse: false },
+    );
+  });
+
+  it("walks parents before their children and can skip subtrees", () => {
+    const visited: [string, string | undefined][] = [];
+
+    walkConversation(tree, (node, parent) => {
+      visited.push([node.reply.id, parent?.reply.id]);
+      return node.reply.id !== "a1";
+    });
+
+    expect(visited).to.deep.equal([
+      ["a", undefined],
+      ["a1", "a"],
+      ["a2", "a"],
+      ["b", undefined],
+    ]);
+  });
+
+  it("flattens the tree depth-first", () => {
+    expect(
+      flattenConversation(tree).map(({ reply: { id } }) => id),
+    ).to.deep.equal(["a", "a1", "a1x", "a2", "b"]);
+  });
+
+  it("keeps the ancestors of matching replies", () => {
+    const filtered = filterConversation(
+      tree,
+      (node) => node.reply.id === "a1x",
+    );
+
+    expect(filtered.size).to.equal(3);
+    expect(shape(filtered.children)).to.deep.equal([
+      ["a", 1, [["a1", 2, [["a1x", 3]]]]],
+    ]);
+    expect(tree.size).to.equal(5);
+    expect(tree.children[0].children).to.have.length(2);
+  });
+});
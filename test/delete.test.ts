@@ -0,0 +1,137 @@
+import { expect } from "chai";
+import { ThreadsAPIError, ThreadsNotFoundError } from "../src";
+import { createTestClient } from "./helpers";
+
+describe("bulkDeleteThreads", () => {
+  /**
+   * Create a client and a few posts of the user, published a month apart
+   */
+  const setup = () => {
+    const client = createTestClient();
+    const { server, user } = client;
+    const ids = [
+      { text: "Old news", day: "2024-04-01" },
+      { text: "Launch day!", day: "2024-05-01" },
+      { text: "More news", day: "2024-06-01" },
+      { text: "Recent news", day: "2024-07-01" },
+    ].map(
+      ({ text, day }) =>
+        server.store.createMedia({
+          userId: user.id,
+          text,
+          timestamp: new Date(`${day}T12:00:00Z`),
+        }).id,
+    );
+    return { ...client, ids };
+  };
+
+  it("lists the matching posts without deleting them in dry-run mode", async () => {
+    const { server, api, user } = setup();
+
+    const results = await api.bulkDeleteThreads({
+      userId: user.id,
+      filter: { text: "NEWS" },
+      dryRun: true,
+    });
+
+    expect(
+      results.map(({ post, deleted, dryRun }) => [post.text, deleted, dryRun]),
+    ).to.deep.equal([
+      ["Recent news", false, true],
+      ["More news", false, true],
+      ["Old news", false, true],
+    ]);
+    expect(server.store.media.size).to.equal(4);
+    expect(server.requests.some(({ method }) => method === "DELETE")).to.equal(
+      false,
+    );
+  });
+
+  it("deletes the posts matching the filter and time range", async () => {
+    const { server, api, user, ids } = setup();
+
+    const results = await api.bulkDeleteThreads({
+      userId: user.id,
+      filter: {
+        since: "2024-04-15",
+        until: "2024-06-15",
+        text: /news|launch/i,
+        predicate: (post) => !post.text?.startsWith("Launch"),
+      },
+    });
+
+    expect(
+      results.map(({ post, deleted }) => [post.id, deleted]),
+    ).to.deep.equal([[ids[2], true]]);
+    expect(Array.from(server.store.media.keys())).to.deep.equal([
+      ids[0],
+      ids[1],
+      ids[3],
+    ]);
+  });
+
+  it("reports failed deletions per post and deletes the others", async () => {
+    const { server, api, user, ids } = setup();
+    server.failNext({
+      method: "DELETE",
+      path: ids[2],
+      status: 400,
+      error: { message: "Cannot delete this post", code: 100 },
+    });
+
+    const results = await api.bulkDeleteThreads({
+      userId: user.id,
+      concurrency: 1,
+    });
+
+    expect(
+      results.map(({ post, deleted }) => [post.id, deleted]),
+    ).to.deep.equal([
+      [ids[3], true],
+      [ids[2], false],
+      [ids[1], true],
+      [ids[0], true],
+    ]);
+    expect(results[1].error).to.be.instanceOf(ThreadsAPIError);
+    expect(results[1].error?.message).to.equal("Cannot delete this post");
+    expect(Array.from(server.store.media.keys())).to.deep.equal([ids[2]]);
+  });
+});
+
+describe("repost", () => {
+  it("reposts a post once and undoes it", async () => {
+    const { server, api, user } = createTestClient();
+    const bob = server.store.createUser({ username: "bob" }).user;
+    const post = server.store.createMedia({
+      userId: bob.id,
+      text: "Repost me",
+    });
+
+    const repostId = await api.repost(post.id);
+    const again = await api.repost(post.id).catch((caught: unknown) => caught);
+
+    expect(server.store.media.get(repostId)).to.include({
+      media_type: "REPOST_FACADE",
+    });
+    expect(server.store.media.get(repostId)?.owner.id).to.equal(user.id);
+    expect(again).to.be.instanceOf(ThreadsAPIError);
+    expect((again as ThreadsAPIError).message).to.match(/already reposted/);
+
+    expect(await api.unrepost(repostId)).to.equal(true);
+    expect(server.store.media.has(repostId)).to.equal(false);
+    expect(server.store.media.has(post.id)).to.equal(true);
+  });
+});
+
+describe("deleteMedia", () => {
+  it("deletes a post and fails for unknown posts", async () => {
+    const { server, api, user } = createTestClient();
+    const post = server.store.createMedia({ userId: user.id, text: "Bye" });
+
+    expect(await api.deleteMedia(post.id)).to.equal(true);
+    expect(server.store.media.has(post.id)).to.equal(false);
+    expect(
+      await api.deleteMedia(post.id).catch((caught: unknown) => caught),
+    ).to.be.instanceOf(ThreadsNotFoundError);
+  });
+});
@@ -0,0 +1,104 @@
+import { expect } from "chai";
+import {
+  createGraphError,
+  ThreadsAPIError,
+  ThreadsAuthError,
+  ThreadsNetworkError,
+  ThreadsNotFoundError,
+  ThreadsPermissionError,
+  ThreadsRateLimitError,
+  ThreadsServerError,
+  ThreadsTokenExpiredError,
+  ThreadsValidationError,
+  toThreadsAPIError,
+} from "../src";
+
+describe("createGraphError", () => {
+  const graphError = (status: number, error: Record<string, unknown>) =>
+    createGraphError({
+      status,
+      data: { error },
+      message: `Request failed with status code ${status}`,
+    });
+
+  it("maps Graph error codes to error classes", () => {
+    expect(graphError(400, { code: 190 })).to.be.instanceOf(ThreadsAuthError);
+    expect(graphError(400, { code: 190, error_subcode: 463 })).to.be.instanceOf(
+      ThreadsTokenExpiredError,
+    );
+    expect(graphError(400, { code: 4 })).to.be.instanceOf(
+      ThreadsRateLimitError,
+    );
+    expect(graphError(403, { code: 10 })).to.be.instanceOf(
+      ThreadsPermissionError,
+    );
+    expect(graphError(400, { code: 100, error_subcode: 33 })).to.be.instanceOf(
+      ThreadsNotFoundError,
+    );
+    expect(graphError(500, { code: 2 })).to.be.instanceOf(ThreadsServerError);
+    expect(graphError(400, { code: 100 })).to.be.instanceOf(
+      ThreadsValidationError,
+    );
+  });
+
+  it("keeps the details of the Graph error", () => {
+    const error = graphError(400, {
+      message: "Invalid parameter",
+      type: "OAuthException",
+      code: 100,
+      error_subcode: 2207001,
+      error_user_msg: "Try again",
+      is_transient: false,
+      fbtrace_id: "trace",
+    });
+
+    expect(error).to.include({
+      message: "Invalid parameter",
+      status: 400,
+      code: 100,
+      subcode: 2207001,
+      type: "OAuthException",
+      userMessage: "Try again",
+      isTransient: false,
+      fbtraceId: "trace",
+    });
+  });
+
+  it("falls back to the status when the body has no Graph error", () => {
+    const error = createGraphError({
+      status: 418,
+      data: "teapot",
+      message: "Request failed with status code 418",
+    });
+
+    expect(error.constructor).to.equal(ThreadsAPIError);
+    expect(error.message).to.equal("Request failed with status code 418");
+  });
+});
+
+describe("toThreadsAPIError", () => {
+  it("maps axios errors without loading axios", () => {
+    const throttled = Object.assign(new Error("Request failed"), {
+      isAxiosError: true,
+      response: {
+        status: 429,
+        data: { error: { message: "Throttled", code: 4 } },
+        headers: { "retry-after": "30" },
+      },
+    });
+    const dropped = Object.assign(new Error("socket hang up"), {
+      isAxiosError: true,
+    });
+
+    const rateLimitError = toThreadsAPIError(throttled);
+    expect(rateLimitError).to.be.instanceOf(ThreadsRateLimitError);
+    expect(rateLimitError).to.include({ message: "Throttled", retryAfter: 30 });
+    expect(toThreadsAPIError(dropped)).to.be.instanceOf(ThreadsNetworkError);
+  });
+
+  it("leaves other errors as they are", () => {
+    const error = new TypeError("Not a request error");
+
+    expect(toThreadsAPIError(error)).to.equal(error);
+  });
+});
@@ -0,0 +1,31 @@
+import { expect } from "chai";
+import { createTestClient } from "./helpers";
+
+describe("field-aware responses", () => {
+  it("returns the requested media fields and types only those", async () => {
+    const { server, api, user } = createTestClient();
+    const media = server.store.createMedia({ userId: user.id, text: "Hi" });
+
+    const post = await api.getThreadsMediaObject({
+      mediaId: media.id,
+      fields: ["text", "username"],
+    });
+
+    expect(post).to.deep.equal({ id: media.id, text: "Hi", username: "alice" });
+    // @ts-expect-error permalink was not requested
+    expect(post.permalink).to.equal(undefined);
+  });
+
+  it("returns the requested profile fields and types only those", async () => {
+    const { api, user } = createTestClient();
+
+    const profile = await api.getUserProfile({
+      userId: "me",
+      fields: ["username"],
+    });
+
+    expect(profile).to.deep.equal({ id: user.id, username: "alice" });
+    // @ts-expect-error threads_biography was not requested
+    expect(profile.threads_biography).to.equal(undefined);
+  });
+});
@@ -0,0 +1,58 @@
+import { HttpTransport, ThreadsAPI, ThreadsAPIConfig } from "../src";
+import {
+  MockThreadsServer,
+  MockThreadsServerOptions,
+  MockUser,
+} from "../src/mock";
+
+export const TEST_CONFIG: ThreadsAPIConfig = {
+  clientId: "test-app",
+  clientSecret: "test-secret",
+  redirectUri: "https://example.com/callback",
+  scope: ["threads_basic", "threads_content_publish"],
+  // Keep retries fast so failure scenarios do not slow the suite down
+  retry: { baseDelay: 1, maxDelay: 5, jitter: false },
+};
+
+export interface TestClient {
+  server: MockThreadsServer;
+  api: ThreadsAPI;
+  user: MockUser;
+  accessToken: string;
+}
+
+/**
+ * Create a client answered in-process by a fresh mock server, with one user
+ * @param server Options of the mock server
+ * @param config Overrides of the client configuration
+ * @param authenticate Whether to set the user's token on the client. Defaults to true.
+ * @param wrapTransport Optional wrapper around the mock transport, e.g. to record or fail requests
+ * @returns The server, the client and the user
+ */
+export function createTestClient({
+  server: serverOptions,
+  config,
+  authenticate = true,
+  wrapTransport = (transport) => transport,
+}: {
+  server?: MockThreadsServerOptions;
+  config?: Partial<ThreadsAPIConfig>;
+  authenticate?: boolean;
+  wrapTransport?: (transport: HttpTransport) => HttpTransport;
+} = {}): TestClient {
+  const server = new MockThreadsServer({
+    clientId: TEST_CONFIG.clientId,
+    clientSecret: TEST_CONFIG.clientSecret,
+    ...serverOptions,
+  });
+  const { user, accessToken } = server.store.createUser({ username: "alice" });
+  const api = new ThreadsAPI({
+    ...TEST_CONFIG,
+    transport: wrapTransport(server.transport()),
+    ...config,
+  });
+  if (authenticate) {
+    api.setAccessToken(accessToken);
+  }
+  return { server, api, user, accessToken };
+}
@@ -0,0 +1,235 @@
+import { expect } from "chai";
+import {
+  EARLIEST_INSIGHTS_TIMESTAMP,
+  flattenInsights,
+  HttpRequest,
+  insightsToCSV,
+  MAX_BATCH_SIZE,
+  MAX_INSIGHTS_WINDOW,
+  mergeUserMetrics,
+  splitTimeRange,
+  ThreadsValidationError,
+  UserMetric,
+} from "../src";
+import { createTestClient } from "./helpers";
+
+describe("getBulkMediaInsights", () => {
+  it("collects the failures without stopping the other posts", async () => {
+    const { server, api, user } = createTestClient();
+    const mediaIds = ["One", "Two", "Three"].map(
+      (text) => server.store.createMedia({ userId: user.id, text }).id,
+    );
+
+    const { insights, errors } = await api.getBulkMediaInsights({
+      mediaIds: [...mediaIds, "404", mediaIds[0]],
+      metrics: ["views", "likes"],
+      concurrency: 2,
+    });
+
+    expect(Array.from(insights.keys())).to.deep.equal(mediaIds);
+    expect(
+      insights.get(mediaIds[0])?.map((metric) => metric.name),
+    ).to.deep.equal(["views", "likes"]);
+    expect(Array.from(errors.keys())).to.deep.equal(["404"]);
+  });
+
+  it("fetches the insights of up to MAX_BATCH_SIZE posts per request", async () => {
+    const sent: HttpRequest[] = [];
+    const { server, api, user } = createTestClient({
+      wrapTransport: (transport) => ({
+        request: (request) => {
+          sent.push(request);
+          return transport.request(request);
+        },
+      }),
+    });
+    const mediaIds = Array.from(
+      { length: MAX_BATCH_SIZE + 10 },
+      (_, index) =>
+        server.store.createMedia({ userId: user.id, text: `Post ${index}` }).id,
+    );
+
+    const { insights, errors } = await api.getBulkMediaInsights({
+      mediaIds: [...mediaIds, "404"],
+      metrics: ["views"],
+    });
+
+    expect(insights.size).to.equal(mediaIds.length);
+    expect(Array.from(errors.keys())).to.deep.equal(["404"]);
+    expect(sent).to.have.length(2);
+  });
+
+  it("walks the user's threads published in the date range", async () => {
+    const { server, api, user } = createTestClient();
+    const [, inRange] = ["2024-05-01", "2024-06-01"].map(
+      (day) =>
+        server.store.createMedia({
+          userId: user.id,
+          text: day,
+          timestamp: new Date(`${day}T12:00:00Z`),
+        }).id,
+    );
+
+    const { insights } = await api.getBulkMediaInsights({
+      userId: user.id,
+      since: "2024-05-15",
+      until: "2024-06-15",
+      metrics: ["views"],
+    });
+
+    expect(Array.from(insights.keys())).to.deep.equal([inRange]);
+  });
+
+  it("requires media IDs or a user ID", async () => {
+    const { api } = createTestClient();
+
+    const error = await api
+      .getBulkMediaInsights({ metrics: ["views"] })
+      .catch((caught: unknown) => caught);
+
+    expect(error).to.be.instanceOf(ThreadsValidationError);
+  });
+});
+
+describe("splitTimeRange", () => {
+  const since = EARLIEST_INSIGHTS_TIMESTAMP + 1000;
+
+  it("keeps short ranges in one window", () => {
+    expect(splitTimeRange(since, since + 3600)).to.deep.equal([
+      { since, until: since + 3600 },
+    ]);
+  });
+
+  it("splits long ranges into disjoint windows", () => {
+    const until = since + 2 * MAX_INSIGHTS_WINDOW + 10;
+
+    const windows = splitTimeRange(since, until);
+
+    expect(windows).to.deep.equal([
+      { since, until: since + MAX_INSIGHTS_WINDOW - 1 },
+      {
+        since: since + MAX_INSIGHTS_WINDOW,
+        until: since + 2 * MAX_INSIGHTS_WINDOW - 1,
+      },
+      { since: since + 2 * MAX_INSIGHTS_WINDOW, until },
+    ]);
+    windows.slice(1).forEach((window, index) => {
+      expect(window.since).to.equal((windows[index].until as number) + 1);
+    });
+  });
+
+  it("clamps the start to the earliest available insights", () => {
+    const until = EARLIEST_INSIGHTS_TIMESTAMP + 3600;
+
+    expect(splitTimeRange(0, until)).to.deep.equal([
+      { since: EARLIEST_INSIGHTS_TIMESTAMP, until },
+    ]);
+  });
+});
+
+describe("mergeUserMetrics", () => {
+  /**
+   * Build a user metric
+   */
+  const metric = (
+    name: UserMetric["name"],
+    data: Partial<UserMetric>,
+  ): UserMetric => ({
+    name,
+    period: "day",
+    title: name,
+    description: name,
+    id: name,
+    ...data,
+  });
+
+  it("merges time series by end time", () => {
+    const merged = mergeUserMetrics([
+      [
+        metric("views", {
+          values: [
+            { value: 1, end_time: "2024-05-01T07:00:00+0000" },
+            { value: 2, end_time: "2024-05-02T07:00:00+0000" },
+          ],
+        }),
+      ],
+      [
+        metric("views", {
+          values: [
+            { value: 2, end_time: "2024-05-02T07:00:00+0000" },
+            { value: 3, end_time: "2024-05-03T07:00:00+0000" },
+          ],
+        }),
+      ],
+    ]);
+
+    expect(merged).to.have.length(1);
+    expect(merged[0].values?.map(({ value }) => value)).to.deep.equal([
+      1, 2, 3,
+    ]);
+  });
+
+  it("sums total values and combines the clicks of each link", () => {
+    const merged = mergeUserMetrics([
+      [
+        metric("clicks", {
+          total_value: {
+            value: 3,
+            link_total_values: [
+              { link_url: "https://a.test", value: 2 },
+              { link_url: "https://b.test", value: 1 },
+            ],
+          },
+        }),
+      ],
+      [
+        metric("clicks", {
+          total_value: {
+            value: 4,
+            link_total_values: [{ link_url: "https://a.test", value: 4 }],
+          },
+        }),
+      ],
+    ]);
+
+    expect(merged[0].total_value).to.deep.equal({
+      value: 7,
+      link_total_values: [
+        { link_url: "https://a.test", value: 6 },
+        { link_url: "https://b.test", value: 1 },
+      ],
+    });
+  });
+});
+
+describe("insightsToCSV", () => {
+  it("quotes fields containing commas, quotes and line breaks", () => {
+    const rows = flattenInsights(
+      [
+        {
+          name: "clicks",
+          period: "lifetime",
+          title: "Clicks",
+          description: "Clicks",
+          id: "clicks",
+          total_value: {
+            value: 2,
+            link_total_values: [
+              { link_url: 'https://a.test/?q=a,"b"', value: 1 },
+              { link_url: "https://b.test/\nx", value: 1 },
+            ],
+          },
+        },
+      ],
+      "1",
+    );
+
+    expect(insightsToCSV(rows).split("\n")).to.deep.equal([
+      "id,metric,period,endTime,dimension,value",
+      "1,clicks,lifetime,,,2",
+      '1,clicks,lifetime,,"https://a.test/?q=a,""b""",1',
+      '1,clicks,lifetime,,"https://b.test/',
+      'x",1',
+    ]);
+  });
+});
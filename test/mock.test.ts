@@ -0,0 +1,113 @@
+import { expect } from "chai";
+import { ThreadsAPI, ThreadsNotFoundError, ThreadsServerError } from "../src";
+import { createTestClient, TEST_CONFIG } from "./helpers";
+
+describe("MockThreadsServer", () => {
+  it("publishes a post once its container has finished processing", async () => {
+    const { server, api, user } = createTestClient({
+      server: { containerPolls: 2 },
+    });
+
+    const { id, permalink } = await api.publishPost({
+      userId: user.id,
+      post: { mediaType: "TEXT", text: "Hello offline" },
+      options: { pollInterval: 1, fetchPermalink: true },
+    });
+
+    expect(server.store.media.get(id)?.text).to.equal("Hello offline");
+    expect(permalink).to.match(/^https:\/\/www\.threads\.net\/@alice\/post\//);
+    const statusChecks = server.requests.filter(
+      (request) =>
+        request.method === "GET" &&
+        request.params.fields === "status,error_message",
+    );
+    expect(statusChecks).to.have.length(2);
+  });
+
+  it("pages through a user's threads", async () => {
+    const { server, api, user } = createTestClient();
+    for (let index = 0; index < 7; index += 1) {
+      server.store.createMedia({
+        userId: user.id,
+        text: `Post ${index}`,
+        timestamp: new Date(Date.now() - index * 1000),
+      });
+    }
+
+    const page = await api.getUserThreadsPage({
+      userId: user.id,
+      fields: ["text"],
+      options: { limit: 3 },
+    });
+    expect(page.data.map((thread) => thread.text)).to.deep.equal([
+      "Post 0",
+      "Post 1",
+      "Post 2",
+    ]);
+
+    const texts: (string | undefined)[] = [];
+    for await (const thread of api.iterateUserThreads({
+      userId: user.id,
+      fields: ["text"],
+      options: { limit: 3 },
+    })) {
+      texts.push(thread.text);
+    }
+    expect(texts).to.have.length(7);
+  });
+
+  it("maps Graph errors to typed errors", async () => {
+    const { api } = createTestClient();
+
+    const error = await api
+      .getThreadsMediaObject({ mediaId: "404", fields: ["text"] })
+      .catch((caught: unknown) => caught);
+
+    expect(error).to.be.instanceOf(ThreadsNotFoundError);
+  });
+
+  it("retries transient failures of read requests", async () => {
+    const { server, api } = createTestClient();
+    server.failNext({ method: "GET", times: 2 });
+
+    const profile = await api.getUserProfile({
+      userId: "me",
+      fields: ["username"],
+    });
+
+    expect(profile.username).to.equal("alice");
+    expect(server.requests).to.have.length(3);
+  });
+
+  it("gives up after the configured number of retries", async () => {
+    const { server, api } = createTestClient({
+      config: { retry: { retries: 1, baseDelay: 1, jitter: false } },
+    });
+    server.failNext({ method: "GET", times: 5 });
+
+    const error = await api
+      .getUserProfile({ userId: "me", fields: ["username"] })
+      .catch((caught: unknown) => caught);
+
+    expect(error).to.be.instanceOf(ThreadsServerError);
+    expect(server.requests).to.have.length(2);
+  });
+
+  it("answers real HTTP requests once started", async () => {
+    const { server, user, accessToken } = createTestClient();
+    const baseUrl = await server.start();
+    try {
+      const api = new ThreadsAPI({ ...TEST_CONFIG, baseUrl });
+      api.setAccessToken(accessToken);
+
+      const profile = await api.getUserProfile({
+        userId: user.id,
+        fields: ["username"],
+      });
+
+      expect(profile).to.deep.equal({ id: user.id, username: "alice" });
+    } finally {
+      await server.stop();
+    }
+  });
+});
@@ -0,0 +1,49 @@
+import { expect } from "chai";
+import { ReplyModerator } from "../src";
+import { createTestClient } from "./helpers";
+
+describe("ReplyModerator", () => {
+  it("keeps moderating the other replies when a rule throws", async () => {
+    const { server, api, user } = createTestClient();
+    const bob = server.store.createUser({ username: "bob" }).user;
+    const post = server.store.createMedia({ userId: user.id, text: "Post" });
+    const replies = ["boom", "buy now", "hello"].map((text, index) =>
+      server.store.createMedia({
+        userId: bob.id,
+        text,
+        replyToId: post.id,
+        timestamp: new Date(Date.now() + index * 1000),
+      }),
+    );
+    const moderator = new ReplyModerator(api, {
+      rules: [
+        {
+          name: "classifier",
+          test: async (reply) => {
+            if (reply.text === "boom") {
+              throw new Error("Classifier unavailable");
+            }
+            return false;
+          },
+        },
+        { name: "spam", test: (reply) => reply.text === "buy now" },
+      ],
+    });
+
+    const decisions = await moderator.moderate(post.id);
+
+    expect(
+      decisions.map(({ replyId, action }) => ({ replyId, action })),
+    ).to.deep.equal([
+      { replyId: replies[0].id, action: "skip" },
+      { replyId: replies[1].id, action: "hide" },
+      { replyId: replies[2].id, action: "none" },
+    ]);
+    expect(decisions[0].error?.message).to.equal("Classifier unavailable");
+    expect(decisions[0].reason).to.equal('Rule "classifier" failed');
+    expect(decisions[1].applied).to.equal(true);
+    expect(server.store.media.get(replies[1].id)?.hide_status).to.equal(
+      "HIDDEN",
+    );
+  });
+});
@@ -0,0 +1,25 @@
+import { expect } from "chai";
+import { parseCallbackUrl, ThreadsOAuthError } from "../src";
+
+describe("parseCallbackUrl", () => {
+  it("reads the code and state from a full URL, a path or a query string", () => {
+    const expected = { code: "abc", state: "xyz" };
+
+    expect(
+      parseCallbackUrl("https://example.com/callback?code=abc&state=xyz"),
+    ).to.deep.equal(expected);
+    expect(parseCallbackUrl("/callback?code=abc&state=xyz")).to.deep.equal(
+      expected,
+    );
+    expect(parseCallbackUrl("?code=abc&state=xyz")).to.deep.equal(expected);
+    expect(parseCallbackUrl("code=abc&state=xyz")).to.deep.equal(expected);
+  });
+
+  it("throws when the user denied access", () => {
+    expect(() =>
+      parseCallbackUrl(
+        "error=access_denied&error_reason=user_denied&error_description=Denied",
+      ),
+    ).to.throw(ThreadsOAuthError, "Denied");
+  });
+});
@@ -0,0 +1,127 @@
+import { expect } from "chai";
+import { createTestClient } from "./helpers";
+
+describe("pagination", () => {
+  const setup = () => {
+    const context = createTestClient();
+    const { server, user } = context;
+    const start = Date.now() - 3600 * 1000;
+    const at = (minutes: number) => new Date(start + minutes * 60 * 1000);
+    const bob = server.store.createUser({ username: "bob" }).user;
+    const post = server.store.createMedia({
+      userId: user.id,
+      text: "Root",
+      timestamp: at(0),
+    });
+    const first = server.store.createMedia({
+      userId: bob.id,
+      text: "First",
+      replyToId: post.id,
+      timestamp: at(1),
+    });
+    server.store.createMedia({
+      userId: user.id,
+      text: "Nested",
+      replyToId: first.id,
+      timestamp: at(2),
+    });
+    server.store.createMedia({
+      userId: bob.id,
+      text: "Second",
+      replyToId: post.id,
+      timestamp: at(3),
+    });
+    return { ...context, post };
+  };
+
+  it("follows the after cursor from page to page", async () => {
+    const { server, api, user } = createTestClient();
+    for (let index = 0; index < 5; index += 1) {
+      server.store.createMedia({
+        userId: user.id,
+        text: `Post ${index}`,
+        timestamp: new Date(Date.now() - index * 1000),
+      });
+    }
+
+    const first = await api.getUserThreadsPage({
+      userId: user.id,
+      fields: ["text"],
+      options: { limit: 2 },
+    });
+    const second = await api.getUserThreadsPage({
+      userId: user.id,
+      fields: ["text"],
+      options: { limit: 2, after: first.paging?.cursors?.after },
+    });
+
+    expect(first.data.map(({ text }) => text)).to.deep.equal([
+      "Post 0",
+      "Post 1",
+    ]);
+    expect(first.paging?.next).to.be.a("string");
+    expect(second.data.map(({ text }) => text)).to.deep.equal([
+      "Post 2",
+      "Post 3",
+    ]);
+  });
+
+  it("resumes iterating from a cursor", async () => {
+    const { server, api, user } = createTestClient();
+    for (let index = 0; index < 5; index += 1) {
+      server.store.createMedia({
+        userId: user.id,
+        text: `Post ${index}`,
+        timestamp: new Date(Date.now() - index * 1000),
+      });
+    }
+    const first = await api.getUserThreadsPage({
+      userId: user.id,
+      fields: ["text"],
+      options: { limit: 3 },
+    });
+
+    const rest: (string | undefined)[] = [];
+    for await (const thread of api.iterateUserThreads({
+      userId: user.id,
+      fields: ["text"],
+      options: { limit: 1, after: first.paging?.cursors?.after },
+    })) {
+      rest.push(thread.text);
+    }
+
+    expect(rest).to.deep.equal(["Post 3", "Post 4"]);
+  });
+
+  it("iterates over the direct replies of a post", async () => {
+    const { api, post } = setup();
+
+    const texts: (string | undefined)[] = [];
+    for await (const reply of api.iterateReplies({
+      mediaId: post.id,
+      fields: ["text"],
+      reverse: false,
+      options: { limit: 1 },
+    })) {
+      texts.push(reply.text);
+    }
+
+    expect(texts).to.deep.equal(["First", "Second"]);
+  });
+
+  it("iterates over the whole conversation of a post", async () => {
+    const { api, post } = setup();
+
+    const texts: (string | undefined)[] = [];
+    for await (const reply of api.iterateConversation({
+      mediaId: post.id,
+      fields: ["text"],
+      reverse: false,
+      options: { limit: 2 },
+    })) {
+      texts.push(reply.text);
+    }
+
+    expect(texts).to.deep.equal(["First", "Nested", "Second"]);
+  });
+});
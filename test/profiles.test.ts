@@ -0,0 +1,135 @@
+import { expect } from "chai";
+import { ThreadsNotFoundError } from "../src";
+import { createTestClient } from "./helpers";
+
+describe("profile discovery", () => {
+  /**
+   * Create a client and a public profile with two posts and a reply
+   */
+  const setup = () => {
+    const client = createTestClient();
+    const { server, user } = client;
+    const rival = server.store.createUser({
+      username: "Rival",
+      name: "The Rival",
+      is_verified: true,
+      profile_links: ["https://rival.test"],
+      followersCount: 42,
+    }).user;
+    const posts = ["First", "Second"].map((text, index) => {
+      const media = server.store.createMedia({
+        userId: rival.id,
+        text,
+        timestamp: new Date(Date.UTC(2024, 4 + index, 1)),
+      });
+      media.insights = { likes: 2, views: 10 };
+      return media;
+    });
+    const mine = server.store.createMedia({ userId: user.id, text: "Mine" });
+    server.store.createMedia({
+      userId: rival.id,
+      text: "A reply",
+      replyToId: mine.id,
+      timestamp: new Date(Date.UTC(2024, 6, 1)),
+    });
+    return { ...client, rival, posts };
+  };
+
+  it("looks up a profile with every field by default", async () => {
+    const { server, api } = setup();
+
+    const profile = await api.lookupProfile({ username: "@rival" });
+
+    expect(profile).to.deep.equal({
+      username: "Rival",
+      name: "The Rival",
+      profile_picture_url: "",
+      biography: "",
+      is_verified: true,
+      profile_links: ["https://rival.test"],
+      follower_count: 42,
+      likes_count: 4,
+      quotes_count: 0,
+      replies_count: 0,
+      reposts_count: 0,
+      views_count: 20,
+    });
+    expect(server.requests[0].params).to.include({ username: "rival" });
+  });
+
+  it("only returns the requested fields", async () => {
+    const { api } = setup();
+
+    const profile = await api.lookupProfile({
+      username: "rival",
+      fields: ["username", "profile_links"],
+    });
+
+    expect(profile).to.deep.equal({
+      username: "Rival",
+      profile_links: ["https://rival.test"],
+    });
+  });
+
+  it("fails with a not found error for unknown usernames", async () => {
+    const { api } = setup();
+
+    const lookup = await api
+      .lookupProfile({ username: "nobody" })
+      .catch((caught: unknown) => caught);
+    const posts = await api
+      .getProfilePosts({ username: "nobody", fields: ["text"] })
+      .catch((caught: unknown) => caught);
+
+    expect(lookup).to.be.instanceOf(ThreadsNotFoundError);
+    expect(posts).to.be.instanceOf(ThreadsNotFoundError);
+  });
+
+  it("pages through the posts of a profile, newest first", async () => {
+    const { api } = setup();
+
+    const page = await api.getProfilePostsPage({
+      username: "rival",
+      fields: ["text"],
+      options: { limit: 1 },
+    });
+    const texts: (string | undefined)[] = [];
+    for await (const post of api.iterateProfilePosts({
+      username: "rival",
+      fields: ["text"],
+      options: { limit: 1 },
+    })) {
+      texts.push(post.text);
+    }
+    const inRange = await api.getProfilePosts({
+      username: "rival",
+      fields: ["text"],
+      options: { since: "2024-05-15" },
+    });
+
+    expect(page.data.map(({ text }) => text)).to.deep.equal(["Second"]);
+    expect(page.paging?.cursors?.after).to.be.a("string");
+    expect(texts).to.deep.equal(["Second", "First"]);
+    expect(inRange.map(({ text }) => text)).to.deep.equal(["Second"]);
+  });
+
+  it("lists the replies of a profile separately from its posts", async () => {
+    const { api } = setup();
+
+    const replies = await api.getProfileReplies({
+      username: "rival",
+      fields: ["text", "replied_to"],
+    });
+    const texts: (string | undefined)[] = [];
+    for await (const reply of api.iterateProfileReplies({
+      username: "rival",
+      fields: ["text"],
+    })) {
+      texts.push(reply.text);
+    }
+
+    expect(replies.map(({ text }) => text)).to.deep.equal(["A reply"]);
+    expect(replies[0].replied_to?.id).to.be.a("string");
+    expect(texts).to.deep.equal(["A reply"]);
+  });
+});
@@ -0,0 +1,198 @@
+import { expect } from "chai";
+import {
+  HttpRequest,
+  HttpResponse,
+  ThreadsChainError,
+  ThreadsContainerError,
+  ThreadsContainerTimeoutError,
+} from "../src";
+import { createTestClient } from "./helpers";
+
+describe("publishPost", () => {
+  it("publishes a carousel once its items have been processed", async () => {
+    const { server, api, user } = createTestClient({
+      server: { containerPolls: 1 },
+    });
+
+    const { id } = await api.publishPost({
+      userId: user.id,
+      post: {
+        mediaType: "CAROUSEL",
+        text: "Album",
+        items: [
+          { mediaType: "IMAGE", mediaUrl: "https://example.com/1.jpg" },
+          { mediaType: "IMAGE", mediaUrl: "https://example.com/2.jpg" },
+        ],
+      },
+      options: { pollInterval: 1 },
+    });
+
+    const media = server.store.media.get(id);
+    expect(media?.media_type).to.equal("CAROUSEL_ALBUM");
+    expect(media?.children).to.have.length(2);
+  });
+
+  it("throws when the container fails to process", async () => {
+    const { server, api, user } = createTestClient();
+    server.failNextContainer("ERROR", "FAILED_PROCESSING_VIDEO");
+
+    const error = await api
+      .publishPost({
+        userId: user.id,
+        post: { mediaType: "VIDEO", mediaUrl: "https://example.com/a.mp4" },
+        options: { pollInterval: 1 },
+      })
+      .catch((caught: unknown) => caught);
+
+    expect(error).to.be.instanceOf(ThreadsContainerError);
+    expect(error).to.include({ containerStatus: "ERROR" });
+    expect(server.store.media.size).to.equal(0);
+  });
+
+  it("gives up waiting for a container after the timeout", async () => {
+    const { server, api, user } = createTestClient({
+      server: { containerPolls: 1000 },
+    });
+
+    const error = await api
+      .publishPost({
+        userId: user.id,
+        post: { mediaType: "TEXT", text: "Slow" },
+        options: { pollInterval: 5, timeout: 20 },
+      })
+      .catch((caught: unknown) => caught);
+
+    expect(error).to.be.instanceOf(ThreadsContainerTimeoutError);
+    expect(server.store.media.size).to.equal(0);
+  });
+});
+
+describe("post options", () => {
+  it("sends every post option with the container", async () => {
+    const { server, api, user } = createTestClient();
+    const quoted = server.store.createMedia({ userId: user.id, text: "Quote" });
+
+    const creationId = await api.createMediaContainer({
+      userId: user.id,
+      mediaType: "IMAGE",
+      mediaUrl: "https://example.com/cat.jpg",
+      text: "Look",
+      options: {
+        replyControl: "accounts_you_follow",
+        quotePostId: quoted.id,
+        altText: "A cat",
+        allowlistedCountryCodes: ["US", "CA"],
+        topicTag: "cats",
+      },
+    });
+
+    expect(server.store.containers.get(creationId)?.params).to.include({
+      media_type: "IMAGE",
+      image_url: "https://example.com/cat.jpg",
+      text: "Look",
+      reply_control: "accounts_you_follow",
+      quote_post_id: quoted.id,
+      alt_text: "A cat",
+      allowlisted_country_codes: "US,CA",
+      topic_tag: "cats",
+    });
+  });
+
+  it("sends link attachments and reply targets", async () => {
+    const { server, api, user } = createTestClient();
+    const parent = server.store.createMedia({ userId: user.id, text: "Root" });
+
+    const creationId = await api.respondToReply({
+      userId: user.id,
+      mediaType: "TEXT",
+      text: "More at",
+      replyToId: parent.id,
+      options: { linkAttachment: "https://example.com/post" },
+    });
+
+    expect(server.store.containers.get(creationId)?.params).to.include({
+      reply_to_id: parent.id,
+      link_attachment: "https://example.com/post",
+    });
+  });
+});
+
+describe("publishThreadChain", () => {
+  const segments = ["One", "Two", "Three"].map((text) => ({
+    mediaType: "TEXT" as const,
+    text,
+  }));
+
+  /**
+   * Create a client whose publish requests fail from the given attempt on
+   */
+  const setup = (failingPublish = Infinity) => {
+    let publishes = 0;
+    return createTestClient({
+      wrapTransport: (transport) => ({
+        request<T>(request: HttpRequest): Promise<HttpResponse<T>> {
+          if (request.url.endsWith("threads_publish")) {
+            publishes += 1;
+            if (publishes === failingPublish) {
+              return Promise.resolve({
+                status: 500,
+                data: { error: { message: "Down", code: 2 } } as unknown as T,
+                headers: {},
+              });
+            }
+          }
+          return transport.request(request);
+        },
+      }),
+    });
+  };
+
+  it("publishes the segments in order, each replying to the previous one", async () => {
+    const { server, api, user } = setup();
+
+    const ids = await api.publishThreadChain({
+      userId: user.id,
+      segments,
+      options: { pollInterval: 1 },
+    });
+
+    const posts = ids.map((id) => server.store.media.get(id));
+    expect(posts.map((post) => post?.text)).to.deep.equal([
+      "One",
+      "Two",
+      "Three",
+    ]);
+    expect(posts[0]?.replied_to).to.equal(undefined);
+    expect(posts[1]?.replied_to?.id).to.equal(ids[0]);
+    expect(posts[2]?.replied_to?.id).to.equal(ids[1]);
+  });
+
+  it("reports the published segments when one fails, and resumes from them", async () => {
+    const { server, api, user } = setup(2);
+
+    const error = await api
+      .publishThreadChain({
+        userId: user.id,
+        segments,
+        options: { pollInterval: 1 },
+      })
+      .catch((caught: unknown) => caught);
+
+    expect(error).to.be.instanceOf(ThreadsChainError);
+    const { publishedIds, failedIndex } = error as ThreadsChainError;
+    expect(failedIndex).to.equal(1);
+    expect(publishedIds).to.have.length(1);
+
+    const ids = await api.publishThreadChain({
+      userId: user.id,
+      segments,
+      options: { pollInterval: 1, publishedIds },
+    });
+
+    expect(ids[0]).to.equal(publishedIds[0]);
+    expect(
+      Array.from(server.store.media.values()).map(({ text }) => text),
+    ).to.deep.equal(["One", "Two", "Three"]);
+    expect(server.store.media.get(ids[1])?.replied_to?.id).to.equal(ids[0]);
+  });
+});
@@ -0,0 +1,35 @@
+import { expect } from "chai";
+import { ThreadsAPI, ThreadsAPIError } from "../src";
+import { createTestClient, TEST_CONFIG } from "./helpers";
+
+describe("getPublishingLimit", () => {
+  it("returns the user's quota usage", async () => {
+    const { api, user } = createTestClient();
+
+    const limit = await api.getPublishingLimit(user.id);
+
+    expect(limit.quota_usage).to.equal(0);
+    expect(limit.config.quota_total).to.be.above(0);
+  });
+
+  it("throws when the response carries no quota", async () => {
+    const api = new ThreadsAPI({
+      ...TEST_CONFIG,
+      transport: {
+        request: async <T>() => ({
+          status: 200,
+          data: { data: [] } as unknown as T,
+          headers: {},
+        }),
+      },
+    });
+    api.setAccessToken("token");
+
+    const error = await api
+      .getPublishingLimit("1234")
+      .catch((caught: unknown) => caught);
+
+    expect(error).to.be.instanceOf(ThreadsAPIError);
+    expect((error as Error).message).to.contain("1234");
+  });
+});
@@ -0,0 +1,122 @@
+import { expect } from "chai";
+import {
+  DEFAULT_RETRY_OPTIONS,
+  ThreadsNetworkError,
+  ThreadsRateLimitError,
+  ThreadsServerError,
+} from "../src";
+import { parseRetryAfter } from "../src/errors";
+import { getRetryDelay, isRetryableError } from "../src/retry";
+import { createTestClient } from "./helpers";
+
+describe("retries", () => {
+  it("caps Retry-After at maxDelay", () => {
+    const error = new ThreadsRateLimitError("Throttled", { retryAfter: 3600 });
+
+    const delay = getRetryDelay(0, error, {
+      ...DEFAULT_RETRY_OPTIONS,
+      maxDelay: 2000,
+    });
+
+    expect(delay).to.equal(2000);
+  });
+
+  it("ignores an empty Retry-After header", () => {
+    expect(parseRetryAfter("")).to.equal(undefined);
+    expect(parseRetryAfter("  ")).to.equal(undefined);
+    expect(parseRetryAfter("30")).to.equal(30);
+  });
+
+  it("does not retry past the call's timeout", async () => {
+    const { server, api } = createTestClient({
+      config: { retry: { baseDelay: 1000, jitter: false } },
+    });
+    server.failNext({ method: "GET", times: 5 });
+    const startedAt = Date.now();
+
+    const error = await api
+      .getUserProfile({ userId: "me", fields: ["username"] }, { timeout: 200 })
+      .catch((caught: unknown) => caught);
+
+    expect(error).to.be.instanceOf(ThreadsServerError);
+    expect(Date.now() - startedAt).to.be.below(200);
+    expect(server.requests).to.have.length(1);
+  });
+
+  it("retries within the call's timeout", async () => {
+    const { server, api } = createTestClient({
+      config: { timeout: 1000 },
+    });
+    server.failNext({
+      method: "GET",
+      status: 429,
+      error: { message: "Throttled", code: 4 },
+      headers: { "Retry-After": "60" },
+    });
+
+    const profile = await api.getUserProfile({
+      userId: "me",
+      fields: ["username"],
+    });
+
+    expect(profile.username).to.equal("alice");
+    expect(server.requests).to.have.length(2);
+  });
+});
+
+describe("isRetryableError", () => {
+  const connectionRefused = new ThreadsNetworkError("connect ECONNREFUSED", {
+    cause: Object.assign(new Error("connect ECONNREFUSED"), {
+      code: "ECONNREFUSED",
+    }),
+  });
+  const throttled = new ThreadsRateLimitError("Throttled", { code: 4 });
+  const timedOut = new ThreadsNetworkError("Request timed out after 100ms");
+
+  it("retries idempotent requests on transient errors", () => {
+    expect(isRetryableError(throttled, true)).to.equal(true);
+    expect(isRetryableError(timedOut, true)).to.equal(true);
+    expect(isRetryableError(new ThreadsServerError("Down"), true)).to.equal(
+      true,
+    );
+  });
+
+  it("retries non-idempotent requests only when they never reached the server", () => {
+    expect(isRetryableError(connectionRefused, false)).to.equal(true);
+    expect(isRetryableError(throttled, false)).to.equal(false);
+    expect(isRetryableError(timedOut, false)).to.equal(false);
+  });
+
+  it("does not retry a throttled publish", async () => {
+    const { server, api, user } = createTestClient();
+    const { id: creationId } = server.store.createContainer(
+      user.id,
+      { media_type: "TEXT", text: "Hello" },
+      0,
+    );
+    server.failNext({
+      path: "threads_publish",
+      status: 429,
+      error: { message: "Throttled", code: 4 },
+    });
+
+    const error = await api
+      .publishMediaContainer({ userId: user.id, creationId })
+      .catch((caught: unknown) => caught);
+
+    expect(error).to.be.instanceOf(ThreadsRateLimitError);
+    expect(server.requests).to.have.length(1);
+  });
+
+  it("does not retry creating a container after a server error", async () => {
+    const { server, api, user } = createTestClient();
+    server.failNext({ method: "POST", path: "threads" });
+
+    const error = await api
+      .createMediaContainer({ userId: user.id, mediaType: "TEXT", text: "Hi" })
+      .catch((caught: unknown) => caught);
+
+    expect(error).to.be.instanceOf(ThreadsServerError);
+    expect(server.requests).to.have.length(1);
+  });
+});
@@ -0,0 +1,156 @@
+import { expect } from "chai";
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  FileJobStore,
+  PublishScheduler,
+  PublishSchedulerOptions,
+} from "../src";
+import { createTestClient } from "./helpers";
+
+const post = { mediaType: "TEXT" as const, text: "Scheduled" };
+
+describe("PublishScheduler", () => {
+  const setup = (options: PublishSchedulerOptions = {}) => {
+    const context = createTestClient();
+    const scheduler = new PublishScheduler(context.api, {
+      retryDelay: 1,
+      containerWait: { pollInterval: 1 },
+      requestOptions: { retry: false },
+      ...options,
+    });
+    return { ...context, scheduler };
+  };
+
+  it("publishes due jobs", async () => {
+    const { server, user, scheduler } = setup();
+    const published: string[] = [];
+    scheduler.on("published", (job) => published.push(job.id));
+    const job = await scheduler.schedule({
+      userId: user.id,
+      post,
+      publishAt: Date.now(),
+    });
+
+    const [processed] = await scheduler.runDueJobs();
+
+    expect(processed).to.include({ id: job.id, status: "published" });
+    expect(server.store.media.get(processed.publishedId!)?.text).to.equal(
+      "Scheduled",
+    );
+    expect(published).to.deep.equal([job.id]);
+  });
+
+  it("creates the container ahead of time and publishes it when due", async () => {
+    const { server, user, scheduler } = setup({ leadTime: 60 * 1000 });
+    const job = await scheduler.schedule({
+      userId: user.id,
+      post,
+      publishAt: Date.now() + 50,
+    });
+
+    const [prepared] = await scheduler.runDueJobs();
+    expect(prepared.status).to.equal("pending");
+    expect(prepared.creationId).to.be.a("string");
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    const [processed] = await scheduler.runDueJobs();
+
+    expect(processed).to.include({
+      id: job.id,
+      status: "published",
+      creationId: prepared.creationId,
+    });
+    expect(server.store.containers.size).to.equal(1);
+  });
+
+  it("retries transient failures with the same container", async () => {
+    const { server, user, scheduler } = setup();
+    server.failNext({ path: "threads_publish" });
+    await scheduler.schedule({ userId: user.id, post, publishAt: Date.now() });
+
+    const [failed] = await scheduler.runDueJobs();
+    expect(failed).to.include({ status: "pending", attempts: 1 });
+    expect(failed.retryAt).to.be.a("number");
+    expect(failed.error).to.be.a("string");
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const [processed] = await scheduler.runDueJobs();
+
+    expect(processed).to.include({
+      status: "published",
+      creationId: failed.creationId,
+    });
+    expect(server.store.containers.size).to.equal(1);
+  });
+
+  it("fails a job once its attempts are used up", async () => {
+    const { server, user, scheduler } = setup({ maxAttempts: 1 });
+    const failures: string[] = [];
+    scheduler.on("failed", (job, error) => failures.push(error.message));
+    server.failNext({ path: "threads_publish" });
+    await scheduler.schedule({ userId: user.id, post, publishAt: Date.now() });
+
+    const [failed] = await scheduler.runDueJobs();
+
+    expect(failed).to.include({ status: "failed", attempts: 1 });
+    expect(failures).to.have.length(1);
+    expect(await scheduler.runDueJobs()).to.deep.equal([]);
+  });
+
+  it("cancels pending jobs but not published ones", async () => {
+    const { user, scheduler } = setup();
+    const pending = await scheduler.schedule({
+      userId: user.id,
+      post,
+      publishAt: Date.now() + 3600 * 1000,
+    });
+    const due = await scheduler.schedule({
+      userId: user.id,
+      post,
+      publishAt: Date.now(),
+    });
+
+    expect((await scheduler.cancel(pending.id)).status).to.equal("cancelled");
+    const processed = await scheduler.runDueJobs();
+
+    expect(processed.map(({ id }) => id)).to.deep.equal([due.id]);
+    const error = await scheduler
+      .cancel(due.id)
+      .catch((caught: unknown) => caught);
+    expect(error).to.be.instanceOf(Error);
+    expect((await scheduler.get(pending.id))?.status).to.equal("cancelled");
+  });
+
+  it("keeps jobs in a file store across schedulers", async () => {
+    const directory = await fs.mkdtemp(join(tmpdir(), "threads-ts-"));
+    const filePath = join(directory, "jobs.json");
+    const { api, user } = createTestClient();
+    const first = new PublishScheduler(api, {
+      store: new FileJobStore(filePath),
+    });
+    const job = await first.schedule({
+      id: "launch",
+      userId: user.id,
+      post,
+      publishAt: Date.now() + 3600 * 1000,
+    });
+
+    const second = new PublishScheduler(api, {
+      store: new FileJobStore(filePath),
+    });
+
+    expect(await second.get("launch")).to.deep.equal(job);
+    expect(
+      await second.schedule({
+        id: "launch",
+        userId: user.id,
+        post: { mediaType: "TEXT", text: "Duplicate" },
+        publishAt: Date.now(),
+      }),
+    ).to.deep.equal(job);
+    expect(await second.list("pending")).to.have.length(1);
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,138 @@
+import { expect } from "chai";
+import { createTestClient } from "./helpers";
+
+describe("searchKeyword", () => {
+  /**
+   * Create a client and three posts about coffee, published a month apart
+   */
+  const setup = () => {
+    const client = createTestClient();
+    const { server, user } = client;
+    [
+      { text: "Morning coffee", day: "2024-05-01", likes: 10, tag: "Coffee" },
+      { text: "Coffee again", day: "2024-06-01", likes: 3 },
+      { text: "Tea for once", day: "2024-07-01", likes: 5, tag: "coffee" },
+    ].forEach(({ text, day, likes, tag }) => {
+      const media = server.store.createMedia({
+        userId: user.id,
+        text,
+        timestamp: new Date(`${day}T12:00:00Z`),
+      });
+      media.insights.likes = likes;
+      if (tag) {
+        media.topic_tag = tag;
+      }
+    });
+    return client;
+  };
+
+  it("matches keywords in the text, most popular first by default", async () => {
+    const { server, api } = setup();
+
+    const results = await api.searchKeyword({
+      query: "coffee",
+      fields: ["text"],
+    });
+
+    expect(results.map(({ text }) => text)).to.deep.equal([
+      "Morning coffee",
+      "Coffee again",
+    ]);
+    expect(server.requests[0].params).to.include({ q: "coffee" });
+    expect(server.requests[0].params).not.to.have.property("search_type");
+  });
+
+  it("orders the most recent posts first with RECENT", async () => {
+    const { server, api } = setup();
+
+    const results = await api.searchKeyword({
+      query: "coffee",
+      fields: ["text"],
+      options: { searchType: "RECENT" },
+    });
+
+    expect(results.map(({ text }) => text)).to.deep.equal([
+      "Coffee again",
+      "Morning coffee",
+    ]);
+    expect(server.requests[0].params).to.include({ search_type: "RECENT" });
+  });
+
+  it("matches topic tags instead of the text in TAG mode", async () => {
+    const { server, api } = setup();
+
+    const top = await api.searchKeyword({
+      query: "coffee",
+      fields: ["text", "topic_tag"],
+      options: { searchMode: "TAG" },
+    });
+    const recent = await api.searchKeyword({
+      query: "coffee",
+      fields: ["text"],
+      options: { searchMode: "TAG", searchType: "RECENT" },
+    });
+
+    expect(top.map(({ text, topic_tag }) => [text, topic_tag])).to.deep.equal([
+      ["Morning coffee", "Coffee"],
+      ["Tea for once", "coffee"],
+    ]);
+    expect(recent.map(({ text }) => text)).to.deep.equal([
+      "Tea for once",
+      "Morning coffee",
+    ]);
+    expect(server.requests[0].params).to.include({ search_mode: "TAG" });
+  });
+
+  it("only returns posts published in the date range", async () => {
+    const { server, api } = setup();
+
+    const results = await api.searchKeyword({
+      query: "coffee",
+      fields: ["text"],
+      options: { since: "2024-05-15", until: "2024-06-15" },
+    });
+
+    expect(results.map(({ text }) => text)).to.deep.equal(["Coffee again"]);
+    expect(server.requests[0].params).to.include({
+      since: "2024-05-15",
+      until: "2024-06-15",
+    });
+  });
+});
+
+describe("getMentions", () => {
+  it("lists the posts of other users mentioning the user, newest first", async () => {
+    const { server, api, user } = createTestClient();
+    const bob = server.store.createUser({ username: "bob" }).user;
+    [
+      { text: "Hi @alice", day: "2024-05-01" },
+      { text: "Thanks @alice!", day: "2024-06-01" },
+      { text: "Hi @alice_b", day: "2024-06-02" },
+      { text: "Mail alice@example.com", day: "2024-06-03" },
+    ].forEach(({ text, day }) =>
+      server.store.createMedia({
+        userId: bob.id,
+        text,
+        timestamp: new Date(`${day}T12:00:00Z`),
+      }),
+    );
+    server.store.createMedia({ userId: user.id, text: "I am @alice" });
+
+    const mentions = await api.getMentions({
+      userId: user.id,
+      fields: ["text", "username"],
+    });
+    const inRange = await api.getMentions({
+      userId: user.id,
+      fields: ["text"],
+      options: { since: "2024-05-15", until: "2024-06-15" },
+    });
+
+    expect(mentions.map(({ text }) => text)).to.deep.equal([
+      "Thanks @alice!",
+      "Hi @alice",
+    ]);
+    expect(mentions[0].username).to.equal("bob");
+    expect(inRange.map(({ text }) => text)).to.deep.equal(["Thanks @alice!"]);
+  });
+});
@@ -0,0 +1,159 @@
+import { expect } from "chai";
+import { InMemoryTokenStore, StoredToken, ThreadsAPI } from "../src";
+import { createTestClient } from "./helpers";
+
+const DAY = 24 * 3600 * 1000;
+
+describe("TokenManager", () => {
+  /**
+   * Create a client whose stored token was issued `age` ago and expires in `expiresIn`
+   */
+  async function withStoredToken(age: number, expiresIn: number) {
+    const store = new InMemoryTokenStore();
+    const context = createTestClient({
+      config: { tokenStore: store },
+      authenticate: false,
+    });
+    const now = Date.now();
+    const token: StoredToken = {
+      accessToken: context.server.store.issueToken(context.user.id, true),
+      tokenType: "bearer",
+      issuedAt: now - age,
+      expiresAt: now + expiresIn,
+      longLived: true,
+      userId: context.user.id,
+    };
+    await store.set("default", token);
+    return { ...context, store, token };
+  }
+
+  const refreshRequests = (requests: { path: string }[]) =>
+    requests.filter((request) => request.path.endsWith("refresh_access_token"));
+
+  it("uses a stored token outside the refresh window as is", async () => {
+    const { server, api, store, token } = await withStoredToken(DAY, 30 * DAY);
+
+    await api.getUserProfile({ userId: "me", fields: ["username"] });
+
+    expect(refreshRequests(server.requests)).to.have.length(0);
+    expect((await store.get("default"))?.accessToken).to.equal(
+      token.accessToken,
+    );
+  });
+
+  it("refreshes a stored token inside the refresh window", async () => {
+    const { server, api, store, token } = await withStoredToken(
+      30 * DAY,
+      3 * DAY,
+    );
+    let refreshed: StoredToken | undefined;
+    api.tokens.on("refresh", (newToken) => {
+      refreshed = newToken;
+    });
+
+    await api.getUserProfile({ userId: "me", fields: ["username"] });
+
+    expect(refreshRequests(server.requests)).to.have.length(1);
+    const stored = await store.get("default");
+    expect(stored?.accessToken).to.not.equal(token.accessToken);
+    expect(stored?.accessToken).to.equal(refreshed?.accessToken);
+    expect(stored?.userId).to.equal(token.userId);
+  });
+
+  it("does not refresh tokens younger than a day", async () => {
+    const { server, api } = await withStoredToken(3600 * 1000, 3 * DAY);
+
+    await api.getUserProfile({ userId: "me", fields: ["username"] });
+
+    expect(refreshRequests(server.requests)).to.have.length(0);
+  });
+
+  it("keeps using the current token without retrying a failed refresh on every request", async () => {
+    const { server, api, token } = await withStoredToken(30 * DAY, 3 * DAY);
+    server.failNext({ path: "refresh_access_token", status: 400, times: 10 });
+    const errors: Error[] = [];
+    api.tokens.on("refreshError", (error) => errors.push(error));
+
+    await api.getUserProfile({ userId: "me", fields: ["username"] });
+    await api.getUserProfile({ userId: "me", fields: ["username"] });
+
+    expect(errors).to.have.length(1);
+    const profileRequests = server.requests.filter((request) =>
+      /(^|\/)me$/.test(request.path),
+    );
+    expect(profileRequests).to.have.length(2);
+    expect(await api.tokens.getAccessToken()).to.equal(token.accessToken);
+  });
+
+  it("prefers a token set with setAccessToken over the stored token", async () => {
+    const { server, api, user } = createTestClient({ authenticate: false });
+    const bob = server.store.createUser({ username: "bob" });
+
+    const { userId } = await api.completeAuthorization({
+      callbackUrl: `https://example.com/callback?code=${server.store.createAuthorizationCode(
+        user.id,
+      )}&state=state`,
+      expectedState: "state",
+    });
+    expect(userId).to.equal(user.id);
+    expect(
+      await api.getUserProfile({ userId: "me", fields: ["username"] }),
+    ).to.include({ username: "alice" });
+
+    api.setAccessToken(bob.accessToken);
+
+    expect(
+      await api.getUserProfile({ userId: "me", fields: ["username"] }),
+    ).to.include({ username: "bob" });
+  });
+
+  it("leaves the client's token alone while completing authorizations", async () => {
+    const { server, api, user } = createTestClient({ authenticate: false });
+    const bob = server.store.createUser({ username: "bob" });
+    const carol = server.store.createUser({ username: "carol" });
+    api.setAccessToken(bob.accessToken);
+    const complete = (client: ThreadsAPI, userId: string) =>
+      client.completeAuthorization({
+        callbackUrl: `https://example.com/callback?code=${server.store.createAuthorizationCode(
+          userId,
+        )}&state=state`,
+        expectedState: "state",
+        key: userId,
+      });
+    const username = async (client: ThreadsAPI) =>
+      (await client.getUserProfile({ userId: "me", fields: ["username"] }))
+        .username;
+
+    const [, , profile] = await Promise.all([
+      complete(api, user.id),
+      complete(api.forUser(carol.user.id), carol.user.id),
+      username(api),
+    ]);
+
+    expect(profile).to.equal("bob");
+    expect(await username(api)).to.equal("bob");
+    expect(await username(api.forUser(user.id))).to.equal("alice");
+    expect(await username(api.forUser(carol.user.id))).to.equal("carol");
+  });
+
+  it("prefers the token passed to forUser over the token stored for the user", async () => {
+    const { server, api, user, accessToken } = createTestClient({
+      authenticate: false,
+    });
+    const bob = server.store.createUser({ username: "bob" });
+    await api.tokens.save(
+      { access_token: accessToken, token_type: "bearer", expires_in: 3600 },
+      { longLived: true, key: bob.user.id },
+    );
+
+    const stored = await api
+      .forUser(bob.user.id)
+      .getUserProfile({ userId: "me", fields: ["username"] });
+    const explicit = await api
+      .forUser(bob.user.id, bob.accessToken)
+      .getUserProfile({ userId: "me", fields: ["username"] });
+
+    expect(stored.username).to.equal(user.username);
+    expect(explicit.username).to.equal("bob");
+  });
+});
@@ -0,0 +1,111 @@
+import { expect } from "chai";
+import {
+  createAxiosTransport,
+  createFetchTransport,
+  HttpTransport,
+  ThreadsAPI,
+  ThreadsAPIError,
+  ThreadsNetworkError,
+  ThreadsNotFoundError,
+} from "../src";
+import { MockThreadsServer } from "../src/mock";
+import { TEST_CONFIG } from "./helpers";
+
+describe("createFetchTransport", () => {
+  let server: MockThreadsServer;
+  let baseUrl: string;
+  let accessToken: string;
+  let userId: string;
+
+  beforeEach(async () => {
+    server = new MockThreadsServer({
+      clientId: TEST_CONFIG.clientId,
+      clientSecret: TEST_CONFIG.clientSecret,
+    });
+    const created = server.store.createUser({ username: "alice" });
+    accessToken = created.accessToken;
+    userId = created.user.id;
+    baseUrl = await server.start();
+  });
+
+  afterEach(() => server.stop());
+
+  /**
+   * Create a client sending real HTTP requests to the mock server
+   */
+  const createClient = (transport: HttpTransport) => {
+    const api = new ThreadsAPI({ ...TEST_CONFIG, baseUrl, transport });
+    api.setAccessToken(accessToken);
+    return api;
+  };
+
+  it("sends GET and form-encoded POST requests", async () => {
+    const api = createClient(createFetchTransport());
+
+    const profile = await api.getUserProfile({
+      userId,
+      fields: ["username"],
+    });
+    const creationId = await api.createMediaContainer({
+      userId,
+      mediaType: "TEXT",
+      text: "Hello over fetch",
+    });
+
+    expect(profile).to.deep.equal({ id: userId, username: "alice" });
+    expect(server.store.containers.get(creationId)?.params.text).to.equal(
+      "Hello over fetch",
+    );
+  });
+
+  it("turns failed requests into network errors", async () => {
+    const api = new ThreadsAPI({
+      ...TEST_CONFIG,
+      retry: { ...TEST_CONFIG.retry, retries: 0 },
+      transport: createFetchTransport(() =>
+        Promise.reject(new TypeError("fetch failed")),
+      ),
+    });
+    api.setAccessToken(accessToken);
+
+    const error = await api
+      .getUserProfile({ userId, fields: ["username"] })
+      .catch((caught: unknown) => caught);
+
+    expect(error).to.be.instanceOf(ThreadsNetworkError);
+    expect((error as ThreadsNetworkError).message).to.equal("fetch failed");
+  });
+
+  it("maps error responses like the axios transport", async () => {
+    const fetchError = async (transport: HttpTransport) => {
+      server.failNext({
+        status: 404,
+        error: {
+          message: "Object does not exist",
+          type: "GraphMethodException",
+          code: 100,
+          error_subcode: 33,
+          fbtrace_id: "trace",
+        },
+      });
+      const error = await createClient(transport)
+        .getUserProfile({ userId, fields: ["username"] })
+        .catch((caught: unknown) => caught);
+      expect(error).to.be.instanceOf(ThreadsNotFoundError);
+      const { message, status, code, subcode, type, fbtraceId } =
+        error as ThreadsAPIError;
+      return { message, status, code, subcode, type, fbtraceId };
+    };
+
+    const viaFetch = await fetchError(createFetchTransport());
+    const viaAxios = await fetchError(createAxiosTransport());
+
+    expect(viaFetch).to.deep.equal(viaAxios);
+    expect(viaFetch).to.include({
+      status: 404,
+      code: 100,
+      subcode: 33,
+      fbtraceId: "trace",
+    });
+  });
+});
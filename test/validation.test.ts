@@ -0,0 +1,159 @@
+import { expect } from "chai";
+import {
+  countCharacters,
+  MAX_CAROUSEL_ITEMS,
+  MAX_LINKS,
+  MAX_TEXT_LENGTH,
+  MIN_CAROUSEL_ITEMS,
+  PostInput,
+  ThreadsPostValidationError,
+  validatePost,
+} from "../src";
+import { assertValid } from "../src/validation";
+import { createTestClient } from "./helpers";
+
+// A family emoji: five code points, one character
+const FAMILY = "\u{1F468}‍\u{1F469}‍\u{1F467}";
+
+describe("countCharacters", () => {
+  it("counts grapheme clusters", () => {
+    expect(countCharacters(`Hi ${FAMILY}`)).to.equal(4);
+  });
+
+  it("is the limit the mock server enforces", async () => {
+    const { api, user } = createTestClient();
+    const text = FAMILY.repeat(MAX_TEXT_LENGTH);
+    expect(validatePost({ mediaType: "TEXT", text })).to.deep.equal([]);
+
+    const creationId = await api.createMediaContainer({
+      userId: user.id,
+      mediaType: "TEXT",
+      text,
+    });
+
+    expect(creationId).to.be.a("string");
+  });
+});
+
+describe("validatePost", () => {
+  const image = {
+    mediaType: "IMAGE" as const,
+    mediaUrl: "https://a.test/1.jpg",
+  };
+
+  /**
+   * Validate a post and return the codes of its violations
+   */
+  const codes = (post: PostInput) => validatePost(post).map(({ code }) => code);
+
+  /**
+   * Build a carousel with the given number of items
+   */
+  const carousel = (count: number): PostInput => ({
+    mediaType: "CAROUSEL",
+    items: Array.from({ length: count }, () => image),
+  });
+
+  it("accepts text up to the limit", () => {
+    const text = "a".repeat(MAX_TEXT_LENGTH);
+    expect(codes({ mediaType: "TEXT", text })).to.deep.equal([]);
+    expect(codes({ mediaType: "TEXT", text: `${text}a` })).to.deep.equal([
+      "TEXT_TOO_LONG",
+    ]);
+  });
+
+  it("accepts up to the link limit", () => {
+    const links = (count: number) =>
+      Array.from({ length: count }, (_, index) => `https://a.test/${index}`);
+    expect(
+      codes({ mediaType: "TEXT", text: links(MAX_LINKS).join(" ") }),
+    ).to.deep.equal([]);
+    expect(
+      codes({ mediaType: "TEXT", text: links(MAX_LINKS + 1).join(" ") }),
+    ).to.deep.equal(["TOO_MANY_LINKS"]);
+  });
+
+  it("requires HTTPS media URLs", () => {
+    expect(
+      codes({ mediaType: "IMAGE", mediaUrl: "http://a.test/1.jpg" }),
+    ).to.deep.equal(["MEDIA_URL_NOT_HTTPS"]);
+    expect(
+      codes({
+        mediaType: "CAROUSEL",
+        items: [image, { mediaType: "VIDEO", mediaUrl: "http://a.test/2.mp4" }],
+      }),
+    ).to.deep.equal(["MEDIA_URL_NOT_HTTPS"]);
+  });
+
+  it("limits the number of carousel items", () => {
+    expect(codes(carousel(MIN_CAROUSEL_ITEMS))).to.deep.equal([]);
+    expect(codes(carousel(MIN_CAROUSEL_ITEMS - 1))).to.deep.equal([
+      "TOO_FEW_CAROUSEL_ITEMS",
+    ]);
+    expect(codes(carousel(MAX_CAROUSEL_ITEMS))).to.deep.equal([]);
+    expect(codes(carousel(MAX_CAROUSEL_ITEMS + 1))).to.deep.equal([
+      "TOO_MANY_CAROUSEL_ITEMS",
+    ]);
+  });
+
+  it("reports every violation together", () => {
+    const violations = validatePost({
+      mediaType: "CAROUSEL",
+      items: [{ mediaType: "IMAGE", mediaUrl: "http://a.test/1.jpg" }],
+      text: "a".repeat(MAX_TEXT_LENGTH + 1),
+    });
+
+    const error = (() => {
+      try {
+        assertValid(violations);
+      } catch (caught) {
+        return caught;
+      }
+    })();
+
+    expect(error).to.be.instanceOf(ThreadsPostValidationError);
+    expect(
+      (error as ThreadsPostValidationError).violations.map(
+        ({ code, field }) => [code, field],
+      ),
+    ).to.deep.equal([
+      ["TEXT_TOO_LONG", "text"],
+      ["TOO_FEW_CAROUSEL_ITEMS", "items"],
+      ["MEDIA_URL_NOT_HTTPS", "items[0].mediaUrl"],
+    ]);
+  });
+
+  it("does not throw without violations", () => {
+    expect(() => assertValid([])).not.to.throw();
+  });
+});
+
+describe("createMediaContainer validation", () => {
+  it("rejects carousels and invalid posts without sending a request", async () => {
+    const { server, api, user } = createTestClient();
+
+    const carouselError = await api
+      .createMediaContainer({ userId: user.id, mediaType: "CAROUSEL" })
+      .catch((caught: unknown) => caught);
+    const imageError = await api
+      .createMediaContainer({
+        userId: user.id,
+        mediaType: "IMAGE",
+        mediaUrl: "http://a.test/1.jpg",
+        text: "a".repeat(MAX_TEXT_LENGTH + 1),
+      })
+      .catch((caught: unknown) => caught);
+
+    expect(
+      (carouselError as ThreadsPostValidationError).violations.map(
+        ({ code }) => code,
+      ),
+    ).to.deep.equal(["CAROUSEL_NOT_ALLOWED"]);
+    expect(
+      (imageError as ThreadsPostValidationError).violations.map(
+        ({ code }) => code,
+      ),
+    ).to.deep.equal(["TEXT_TOO_LONG", "MEDIA_URL_NOT_HTTPS"]);
+    expect(server.requests).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,178 @@
+import { expect } from "chai";
+import { createHmac } from "crypto";
+import type { IncomingMessage, ServerResponse } from "http";
+import { PassThrough } from "stream";
+import { ThreadsWebhookHandler } from "../src";
+import { TEST_CONFIG } from "./helpers";
+
+const body = JSON.stringify({
+  app_id: "1",
+  topic: "moderate",
+  target_id: "1234",
+  time: 1700000000,
+  values: { field: "replies", value: { id: "42", text: "Hi" } },
+});
+
+/**
+ * Build a signed notification request
+ */
+function signedRequest(rawBody: string) {
+  const signature = createHmac("sha256", TEST_CONFIG.clientSecret)
+    .update(rawBody)
+    .digest("hex");
+  return {
+    method: "POST",
+    query: {},
+    headers: { "x-hub-signature-256": `sha256=${signature}` },
+    rawBody,
+  };
+}
+
+describe("ThreadsWebhookHandler", () => {
+  const createHandler = () =>
+    new ThreadsWebhookHandler({
+      clientSecret: TEST_CONFIG.clientSecret,
+      verifyToken: "verify",
+    });
+
+  it("emits the events of a signed notification", async () => {
+    const handler = createHandler();
+    const ids: string[] = [];
+    handler.on("replies", (event) => {
+      ids.push(event.value.id);
+    });
+
+    expect(await handler.handle(signedRequest(body))).to.deep.equal({
+      status: 200,
+      body: "OK",
+    });
+    expect(ids).to.deep.equal(["42"]);
+  });
+
+  it("emits listener failures as error events and responds with 500", async () => {
+    const handler = createHandler();
+    const errors: Error[] = [];
+    handler.on("replies", () => {
+      throw new Error("Listener failed");
+    });
+    handler.on("error", (error) => errors.push(error));
+
+    const response = await handler.handle(signedRequest(body));
+
+    expect(response.status).to.equal(500);
+    expect(errors.map(({ message }) => message)).to.deep.equal([
+      "Listener failed",
+    ]);
+    expect(response.errors).to.deep.equal(errors);
+  });
+
+  it("reports listener failures in the result without an error listener", async () => {
+    const handler = createHandler();
+    handler.on("replies", () => {
+      throw new Error("Listener failed");
+    });
+
+    const response = await handler.handle(signedRequest(body));
+
+    expect(response.status).to.equal(500);
+    expect(response.errors?.map(({ message }) => message)).to.deep.equal([
+      "Listener failed",
+    ]);
+  });
+
+  it("waits for async listeners and reports their rejections", async () => {
+    const handler = createHandler();
+    const settled: string[] = [];
+    handler.on("replies", async () => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      settled.push("replies");
+      throw new Error("Rejected");
+    });
+    handler.on("event", async () => {
+      settled.push("event");
+    });
+
+    const response = await handler.handle(signedRequest(body));
+
+    expect(settled).to.have.members(["replies", "event"]);
+    expect(response.status).to.equal(500);
+    expect(response.errors?.map(({ message }) => message)).to.deep.equal([
+      "Rejected",
+    ]);
+  });
+
+  it("emits the generic event even if a field listener throws", async () => {
+    const handler = createHandler();
+    const ids: string[] = [];
+    handler.on("replies", () => {
+      throw new Error("Listener failed");
+    });
+    handler.once("event", (event) => {
+      ids.push(event.value.id);
+    });
+
+    const response = await handler.handle(signedRequest(body));
+    await handler.handle(signedRequest(body));
+
+    expect(response.status).to.equal(500);
+    expect(ids).to.deep.equal(["42"]);
+  });
+
+  it("skips changes without a media ID", async () => {
+    const handler = createHandler();
+    const ids: string[] = [];
+    handler.on("event", (event) => {
+      ids.push(event.value.id);
+    });
+    const notification = JSON.stringify({
+      topic: "replies",
+      values: [
+        { field: "replies", value: null },
+        { field: "replies", value: "42" },
+        { field: "replies", value: { id: 42 } },
+        { field: "replies", value: { id: "43" } },
+      ],
+    });
+
+    const response = await handler.handle(signedRequest(notification));
+
+    expect(response.status).to.equal(200);
+    expect(ids).to.deep.equal(["43"]);
+  });
+
+  it("responds when the request stream fails", () => {
+    const handler = createHandler();
+    const req = Object.assign(new PassThrough(), {
+      method: "POST",
+      url: "/",
+      headers: {},
+    });
+    const response = { status: 0, body: "", headersSent: false };
+    const res = {
+      get headersSent() {
+        return response.headersSent;
+      },
+      writeHead(status: number) {
+        response.status = status;
+        response.headersSent = true;
+        return this;
+      },
+      end(chunk: string) {
+        response.body = chunk;
+        return this;
+      },
+    };
+
+    handler.nodeHandler()(
+      req as unknown as IncomingMessage,
+      res as unknown as ServerResponse,
+    );
+    req.emit("error", new Error("aborted"));
+
+    expect(response).to.deep.equal({
+      status: 400,
+      body: "Invalid request",
+      headersSent: true,
+    });
+  });
+});